@@ -1,10 +1,39 @@
 // app/(tabs)/index.tsx
 
 import ForYouScreen from '@/screens/ForYouScreen';
-import React from 'react';
+import ProfilePickerScreen from '@/src/ProfilePickerScreen';
+import ScheduleLockScreen from '@/src/ScheduleLockScreen';
+import { useActiveBlockedWindow } from '@/src/schedule';
+import { useSettings } from '@/src/SettingsContext';
+import React, { useEffect, useState } from 'react';
 
 export default function ForYouTabPage() {
-    // This simply renders the screen you already built.
-    // No changes to your ForYouScreen.tsx are needed.
-    return <ForYouScreen />;
-}
\ No newline at end of file
+    const { activeProfile, isLoading, blockedWindows } = useSettings();
+
+    // Bedtime / school-hours window that is active right now, if any
+    const { active: activeWindow, isLoaded: isScheduleLoaded } = useActiveBlockedWindow(blockedWindows);
+
+    // Set by the feed once it has paused playback and is ready to be swapped for the lock screen
+    const [feedReleased, setFeedReleased] = useState(false);
+    useEffect(() => {
+        if (!activeWindow) setFeedReleased(false);
+    }, [activeWindow]);
+
+    // Ask who is watching before showing the feed (ForYouScreen shows its own spinner while settings load)
+    if (!isLoading && !activeProfile) return <ProfilePickerScreen />;
+
+    // Keep the feed covered until the schedule and its saved locks are known, so a restart can't slip past a lock
+    if (isLoading || !isScheduleLoaded) return <ScheduleLockScreen active={null} />;
+
+    // Lock the feed during a blocked window
+    if (activeWindow && feedReleased) return <ScheduleLockScreen active={activeWindow} />;
+
+    // Key on the profile so switching children starts the feed fresh
+    return (
+        <ForYouScreen
+            key={activeProfile?.id}
+            lockNotice={activeWindow ? `${activeWindow.window.label || 'Break time'} is starting. Let's pause here!` : null}
+            onLockReady={() => setFeedReleased(true)}
+        />
+    );
+}
@@ -0,0 +1,5 @@
+// app/ChildProfiles.tsx
+
+import ChildProfilesScreen from '@/src/ChildProfilesScreen';
+
+export default ChildProfilesScreen;
@@ -0,0 +1,5 @@
+// app/Downloads.tsx
+
+import DownloadsScreen from '@/src/DownloadsScreen';
+
+export default DownloadsScreen;
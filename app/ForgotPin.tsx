@@ -0,0 +1,5 @@
+// app/ForgotPin.tsx
+
+import ForgotPinScreen from '@/src/ForgotPinScreen';
+
+export default ForgotPinScreen;
@@ -7,15 +7,21 @@ import { TouchableOpacity, View, Alert } from 'react-native'; // <-- Make sure A
 import { signOut } from 'firebase/auth';
 import { auth } from '@/firebaseConfig';
 import { useSettings } from '@/src/SettingsContext';
+import { resolveGate } from '@/src/parentalGates';
+import { PARENT_ROUTE_STRENGTH } from '@/src/routeGuard';
 
 // Your Settings button, now with the correct alert logic from your video
 export function SettingsButton() {
     const router = useRouter();
-    const { isPinSet } = useSettings(); // This will now work correctly
+    const { isPinSet, isParentSessionActive, securitySettings } = useSettings(); // This will now work correctly
+    const gate = resolveGate(PARENT_ROUTE_STRENGTH, securitySettings.parentalGate); // Check Settings asks for
 
     const handlePress = () => {
-        if (isPinSet) {
-            // If a PIN is set, go directly to the entry screen.
+        if (isParentSessionActive) {
+            // PIN was entered a moment ago, so skip asking again
+            router.push('/Settings');
+        } else if (isPinSet || gate.kind !== 'pin') {
+            // If a PIN is set (or the parent uses a check without one), go directly to the entry screen.
             router.push('/PinEntry');
         } else {
             // If no PIN is set, show the alert exactly like in the video.
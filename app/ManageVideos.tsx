@@ -0,0 +1,5 @@
+// app/ManageVideos.tsx
+
+import ManageVideosScreen from '@/src/ManageVideosScreen';
+
+export default ManageVideosScreen;
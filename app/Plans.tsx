@@ -0,0 +1,5 @@
+// app/Plans.tsx
+
+import PlansScreen from '@/src/PlansScreen';
+
+export default PlansScreen;
@@ -0,0 +1,5 @@
+// app/Purchases.tsx
+
+import PurchasesScreen from '@/src/PurchasesScreen';
+
+export default PurchasesScreen;
@@ -0,0 +1,5 @@
+// app/Schedule.tsx
+
+import ScheduleScreen from '@/src/ScheduleScreen';
+
+export default ScheduleScreen;
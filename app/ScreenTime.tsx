@@ -0,0 +1,5 @@
+// app/ScreenTime.tsx
+
+import ScreenTimeScreen from '@/src/ScreenTimeScreen';
+
+export default ScreenTimeScreen;
@@ -0,0 +1,5 @@
+// app/VideoRequests.tsx
+
+import VideoRequestsScreen from '@/src/VideoRequestsScreen';
+
+export default VideoRequestsScreen;
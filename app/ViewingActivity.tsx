@@ -0,0 +1,5 @@
+// app/ViewingActivity.tsx
+
+import ViewingActivityScreen from '@/src/ViewingActivityScreen';
+
+export default ViewingActivityScreen;
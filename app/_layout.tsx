@@ -1,8 +1,12 @@
 // Import necessary packages from React, Expo Router, Firebase, and other libraries
 import { auth } from '@/firebaseConfig'; // Firebase configuration
-import { SettingsProvider } from '@/src/SettingsContext'; // Custom context for app-wide settings
+import { DownloadsProvider } from '@/src/DownloadsContext'; // Context for videos downloaded for offline use
+import { EntitlementProvider } from '@/src/EntitlementContext'; // Context for the signed-in user's premium status
+import { SettingsProvider, useSettings } from '@/src/SettingsContext'; // Custom context for app-wide settings
+import { resolveGate } from '@/src/parentalGates'; // Picks the parental check parent routes ask for
+import { PARENT_ROUTE_STRENGTH, RouteRequirement } from '@/src/routeGuard'; // Requirements used by the route guard table
 import { StripeProvider } from '@stripe/stripe-react-native'; // Stripe payment provider
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, usePathname, useRouter, useSegments } from 'expo-router';
 import { onAuthStateChanged, User } from 'firebase/auth';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, Image, StyleSheet, Text, View } from 'react-native';
@@ -21,12 +25,44 @@ function SplashScreen() {
     );
 }
 
+// What each route needs before it is shown (routes not listed are open to everyone).
+// Parent routes send the parent to PinEntry for a parental check (or PinSetup when that check is a PIN and
+// none exists yet), then on to where they were going.
+const ROUTE_GUARDS: { [route: string]: RouteRequirement[] } = {
+    'login': ['guest'],
+    '(tabs)': ['user'],
+    'PinEntry': ['user'],
+    'PinSetup': ['user'], // Asks for the current PIN itself before changing it
+    'ForgotPin': ['user'], // Asks for the account password instead of the PIN
+    'Settings': ['user', 'parent'],
+    'ChildProfiles': ['user', 'parent'],
+    'ScreenTime': ['user', 'parent'],
+    'Schedule': ['user', 'parent'],
+    'Downloads': ['user', 'parent'],
+    'ManageVideos': ['user', 'parent'],
+    'ViewingActivity': ['user', 'parent'],
+    'VideoRequests': ['user', 'parent'],
+    'Purchases': ['user', 'parent'],
+    'Plans': ['user'], // Paying is behind a parental check inside the screen
+};
+
 // Main navigation component that handles login status and routing
 function RootLayoutNav() {
     const router = useRouter(); // Used to navigate programmatically
     const segments = useSegments(); // Gives current route segments
+    const pathname = usePathname(); // Full path, kept so a guarded route can be resumed after the PIN
     const [user, setUser] = useState<User | null>(null); // Stores currently logged-in user
     const [isInitializing, setIsInitializing] = useState(true); // True while checking login
+    // Parent session after a parental check, the preferred check and whether a PIN exists at all
+    const { isLoading: settingsLoading, isPinSet, hasParentSession, extendParentSession, securitySettings } = useSettings();
+    const hasParentAccess = hasParentSession(PARENT_ROUTE_STRENGTH);
+    // The PIN check can't be shown before a PIN exists, so that case goes to PIN setup instead
+    const needsPinSetup = resolveGate(PARENT_ROUTE_STRENGTH, securitySettings.parentalGate).kind === 'pin' && !isPinSet;
+
+    // Requirements of the route being shown
+    const requirements = ROUTE_GUARDS[segments[0] ?? ''] ?? [];
+    const needsParent = requirements.includes('parent');
+    const isBlocked = (requirements.includes('user') && !user) || (needsParent && !hasParentAccess);
 
     // This useEffect runs once: sets up Firebase auth listener
     useEffect(() => {
@@ -37,22 +73,28 @@ function RootLayoutNav() {
         return () => unsubscribe(); // Clean up the listener when component unmounts
     }, []);
 
-    // This useEffect runs when login state or route changes
+    // This useEffect runs when login state, the parent session or the route changes and applies ROUTE_GUARDS
     useEffect(() => {
-        if (isInitializing) return; // Wait until Firebase is done loading
-
-        const inLoginScreen = segments[0] === 'login'; // Check if on login screen
-        const inAppTabs = segments[0] === '(tabs)'; // Check if on main app tabs
+        if (isInitializing || settingsLoading) return; // Wait until Firebase and saved settings are loaded
 
         // If user is logged in and still on login screen, redirect to main app
-        if (user && inLoginScreen) {
+        if (requirements.includes('guest') && user) {
             router.replace('/(tabs)');
         }
         // If user is not logged in but trying to access the app, redirect to login
-        else if (!user && inAppTabs) {
+        else if (requirements.includes('user') && !user) {
             router.replace('/login');
         }
-    }, [user, segments, isInitializing, router]);
+        // Parent-only route without a parent session (deep link, or the session ran out): ask first, then come back here
+        else if (needsParent && !hasParentAccess) {
+            router.replace({ pathname: needsPinSetup ? '/PinSetup' : '/PinEntry', params: { next: pathname } });
+        }
+    }, [user, segments, pathname, isInitializing, settingsLoading, needsPinSetup, hasParentAccess, router]);
+
+    // Any touch on a parent screen counts as activity and keeps the session going
+    const handleTouch = () => {
+        if (needsParent) extendParentSession();
+    };
 
     // If still initializing (e.g., checking login), show splash screen
     if (isInitializing) {
@@ -61,28 +103,71 @@ function RootLayoutNav() {
 
     // Define app screens for navigation
     return (
-        <Stack>
-            {/* Main app with bottom tabs, header hidden */}
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            {/* Login screen, header hidden */}
-            <Stack.Screen name="login" options={{ headerShown: false }} />
-            {/* PIN entry screen, shows as a modal with a title */}
-            <Stack.Screen name="PinEntry" options={{ presentation: 'modal', title: 'Enter Parent PIN' }}/>
+        <View style={styles.navContainer} onTouchStart={handleTouch}>
+            <Stack>
+                {/* Main app with bottom tabs, header hidden */}
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                {/* Login screen, header hidden */}
+                <Stack.Screen name="login" options={{ headerShown: false }} />
+                {/* Parental check (PIN entry, or the grown-up question), shows as a modal with a title */}
+                <Stack.Screen name="PinEntry" options={{ presentation: 'modal', title: 'Parent Check' }}/>
             
-            {/* PIN setup screen with custom header background and text color */}
-            <Stack.Screen
-                name="PinSetup"
-                options={{
-                    presentation: 'modal',
-                    title: 'Set Up Parent PIN',
-                    headerStyle: { backgroundColor: '#FAE1EB' }, // Light shiny pink top bar
-                    headerTintColor: '#333' // Dark text/icons for better visibility
-                }}
-            />
+                {/* PIN setup screen with custom header background and text color */}
+                <Stack.Screen
+                    name="PinSetup"
+                    options={{
+                        presentation: 'modal',
+                        title: 'Set Up Parent PIN',
+                        headerStyle: { backgroundColor: '#FAE1EB' }, // Light shiny pink top bar
+                        headerTintColor: '#333' // Dark text/icons for better visibility
+                    }}
+                />
             
-            {/* Settings screen shown as a modal */}
-            <Stack.Screen name="Settings" options={{ presentation: 'modal', title: 'Parent Settings' }}/>
-        </Stack>
+                {/* PIN reset after re-entering the account password */}
+                <Stack.Screen
+                    name="ForgotPin"
+                    options={{
+                        presentation: 'modal',
+                        title: 'Forgot Parent PIN',
+                        headerStyle: { backgroundColor: '#FAE1EB' }, // Same pink top bar as PIN setup
+                        headerTintColor: '#333'
+                    }}
+                />
+
+                {/* Settings screen shown as a modal */}
+                <Stack.Screen name="Settings" options={{ presentation: 'modal', title: 'Parent Settings' }}/>
+
+                {/* Child profile management, opened from Settings */}
+                <Stack.Screen name="ChildProfiles" options={{ presentation: 'modal', title: 'Child Profiles' }}/>
+
+                {/* Daily watch-time allowances, opened from Settings */}
+                <Stack.Screen name="ScreenTime" options={{ presentation: 'modal', title: 'Screen Time' }}/>
+
+                {/* Weekly bedtime / school-hours schedule, opened from Settings */}
+                <Stack.Screen name="Schedule" options={{ presentation: 'modal', title: 'Schedule' }}/>
+
+                {/* Offline downloads of approved videos, opened from Settings */}
+                <Stack.Screen name="Downloads" options={{ presentation: 'modal', title: 'Offline Downloads' }}/>
+
+                {/* PIN-protected watch history report, opened from Settings */}
+                <Stack.Screen name="ViewingActivity" options={{ presentation: 'modal', title: 'Viewing Activity' }}/>
+
+                {/* PIN-protected editor for each child's approved videos, opened from Settings */}
+                <Stack.Screen name="ManageVideos" options={{ presentation: 'modal', title: 'Approved Videos' }}/>
+
+                {/* PIN-protected queue of videos kids asked for, opened from Settings */}
+                <Stack.Screen name="VideoRequests" options={{ presentation: 'modal', title: 'Video Requests' }}/>
+
+                {/* Purchase ledger with receipt details, opened from Settings */}
+                <Stack.Screen name="Purchases" options={{ presentation: 'modal', title: 'Purchases' }}/>
+
+                {/* Plan picker with promo codes, opened when the free selection limit is reached or from Settings */}
+                <Stack.Screen name="Plans" options={{ presentation: 'modal', title: 'Premium Plans' }}/>
+            </Stack>
+
+            {/* Cover a guarded screen until the redirect above has happened */}
+            {isBlocked && <View style={styles.guardCover} />}
+        </View>
     );
 }
 
@@ -96,15 +181,23 @@ export default function RootLayout() {
         >
             {/* Custom app-wide context provider for global settings */}
             <SettingsProvider>
-                {/* Main navigation handler */}
-                <RootLayoutNav />
+                {/* Offline downloads of approved videos */}
+                <DownloadsProvider>
+                    {/* Premium status of the signed-in user */}
+                    <EntitlementProvider>
+                        {/* Main navigation handler */}
+                        <RootLayoutNav />
+                    </EntitlementProvider>
+                </DownloadsProvider>
             </SettingsProvider>
         </StripeProvider>
     );
 }
 
-// Styling used in SplashScreen
+// Styling used in SplashScreen and around the navigator
 const styles = StyleSheet.create({
+    navContainer: { flex: 1 },
+    guardCover: { ...StyleSheet.absoluteFillObject, backgroundColor: '#fff' },
     splashContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#fff' },
     logo: { width: 150, height: 150 }, // Logo size
     splashText: { fontSize: 24, fontWeight: 'bold', marginTop: 20, color: '#007AFF' }, // App name style
@@ -0,0 +1,6 @@
+// jest.setup.js
+
+// AsyncStorage has no native module under Jest: use the in-memory mock it ships with
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -10,7 +10,7 @@ import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { Audio, AVPlaybackStatus, ResizeMode, Video } from 'expo-av';
 
 // Import React and its hooks (useEffect, useRef, useState)
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 
 // Import all the UI components from React Native
 import {
@@ -19,37 +19,56 @@ import {
   FlatList, // Scrollable list
   Image, // Image component
   ListRenderItem, // Type for list items
+  RefreshControl, // Pull-to-refresh spinner
   SafeAreaView, // Safe area for different phone screens
+  ScrollView, // Horizontal "Continue watching" row
   StatusBar, // Phone's status bar
   StyleSheet, // For styling components
   Text, // Text component
   TouchableOpacity, // Touchable button
-  View // Container component
+  View, // Container component
+  ViewToken // Type for visible list items
 } from 'react-native';
 
 // Import custom settings context (manages app settings)
 import { useSettings } from '../src/SettingsContext'; // Ensure correct path
 
-// *** STRIPE AND USER DETAIL IMPORTS ***
-// Import Firebase authentication
-import { auth } from '@/firebaseConfig'; // Adjust path as needed
+// Import downloaded videos for offline playback
+import { useDownloads } from '../src/DownloadsContext';
 
-// Import Stripe payment library
-import { useStripe } from '@stripe/stripe-react-native';
+// Import the signed-in user's premium status (saved per user and re-checked with the backend)
+import { useEntitlement } from '../src/EntitlementContext';
 
-// Import app constants and device info
-import Constants from 'expo-constants';
-import * as Device from 'expo-device';
+// Import daily screen-time tracking and the lock screen shown when it runs out
+import { formatMinutes, useScreenTime } from '../src/screenTime';
+import TimesUpScreen from '../src/TimesUpScreen';
+
+// Import saved playback positions (resume where the child left off)
+import { usePlaybackPositions } from '../src/playbackPositions';
+
+// Import the watch history log shown to parents in "Viewing Activity"
+import { recordWatchEvent, WatchEventType } from '../src/watchHistory';
+
+// Import router for opening the plan picker
+import { useRouter } from 'expo-router';
+
+// Import the parental check shown before switching profiles and approving videos
+import ParentGate, { useParentGate } from '../src/ParentGate';
+
+// Import the strength parent screens need (approving a video here is the same parent action)
+import { PARENT_ROUTE_STRENGTH } from '../src/routeGuard';
+
+// Import the typed backend API client
+import { fetchVideos as fetchVideoCatalogue, fetchVideosByIds, mergeVideos, VideoData } from '../src/api/videos';
+
+// Import the saved copy of the catalogue so the feed can show it before the backend answers
+import { loadCachedCatalogue, loadCachedThumbnails, saveCatalogue } from '../src/catalogueCache';
 
 // --- Type Definitions ---
-// Define what a video object looks like
-interface VideoData {
-  id: string;                    // Unique video ID
-  url: string;                   // Video file URL
-  thumbnailUrl?: string | null;  // Optional thumbnail image URL
-  filename?: string;             // Optional filename
-  duration?: number;             // Optional video length in seconds
-  formattedDuration?: string;    // Optional formatted time like "2:30"
+// Props passed in by the tab page
+interface ForYouScreenProps {
+  lockNotice?: string | null;    // Friendly message shown when a bedtime/school window starts
+  onLockReady?: () => void;      // Called once playback is paused and the lock screen can take over
 }
 
 // Define what an error object looks like
@@ -76,22 +95,15 @@ const checkNetworkStatus = async (): Promise<boolean> => {
 };
 
 // --- Constants ---
-// Maximum number of videos user can select for free
-const MAX_FREE_SELECTIONS = 5;
-
-// ForYouScreen.tsx
-// url
-const BACKEND_URL = 'https://mykidtokapp-aspeivism9-amnas-projects-9ac5f77d.vercel.app/api/videos';
+// How long the "pausing now" message stays up before the lock screen appears
+const LOCK_NOTICE_MS = 4000;
 
-// URL to create payment on backend server
-const STRIPE_PAYMENT_URL = 'https://mykidtokapp-aspeivism9-amnas-projects-9ac5f77d.vercel.app/api/create-payment';
+// How long to wait for a scroll to settle before playing the video scrolled to
+const SCROLL_SETTLE_MS = 400;
 
-// URL to confirm payment on backend server
-const STRIPE_CONFIRM_URL = 'https://mykidtokapp-aspeivism9-amnas-projects-9ac5f77d.vercel.app/api/confirm-payment';
-// ...
 // --- Component Definition ---
 // Main component function (React.FC means React Function Component)
-const ForYouScreen: React.FC = () => {
+const ForYouScreen: React.FC<ForYouScreenProps> = ({ lockNotice = null, onLockReady }) => {
   
   // Get settings and functions from settings context
   const {
@@ -99,20 +111,48 @@ const ForYouScreen: React.FC = () => {
     isLoading: settingsLoading,            // Rename isLoading to settingsLoading
     selectedVideos,                        // Array of selected video IDs
     toggleVideoSelectionInContext,         // Function to select/unselect videos
+    activeProfile,                         // Child profile currently watching
+    profiles,                              // All child profiles (to know if switching makes sense)
+    selectProfile,                         // Function to switch profile (null shows the picker)
+    dailyLimits,                           // Watch-time allowance per weekday for this profile
+    playerSettings,                        // Full-screen pager and auto-advance options
+    videoRequests,                         // Videos this profile has asked a parent for
+    requestVideo,                          // Function to ask a parent to approve a video
   } = useSettings();
 
-  // *** STRIPE HOOK ***
-  // Get Stripe payment functions
-  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+  // State to track if the child chose to browse beyond the approved list (restricted mode only)
+  const [browseAll, setBrowseAll] = useState<boolean>(false);
+
+  // Browse-and-request mode: non-approved videos are shown as locked tiles the child can ask for
+  const isBrowsing = isApprovedOnlyMode && browseAll;
+
+  // Full-screen pager mode (locked tiles always use the card list) and whether it moves on when a video ends
+  const pagerMode = playerSettings.pagerMode && !isBrowsing;
+  const { autoAdvance } = playerSettings;
+
+  // Videos downloaded to the device (played from local storage, and the only ones shown offline)
+  const { downloads, getOfflineVideo } = useDownloads();
+
+  // Today's watch time for the active profile, checked against its allowance
+  const screenTime = useScreenTime(activeProfile?.id, dailyLimits);
+
+  // Where the active profile stopped in each video
+  const playbackPositions = usePlaybackPositions(activeProfile?.id);
+
+  // Used to open the plan picker
+  const router = useRouter();
+
+  // Switching profiles is low-stakes, so a 3-second hold is enough to keep small kids from doing it
+  const { runProtected, gateProps } = useParentGate('low');
+
+  // Approving videos is for parents only, so it needs the same check as "Manage Approved Videos"
+  const approvalGate = useParentGate(PARENT_ROUTE_STRENGTH);
 
   // State to store filtered videos for display
   const [filteredVideos, setFilteredVideos] = useState<VideoData[]>([]);
   
-  // State to track if user has premium (simulated)
-  const [hasSimulatedPremium, setHasSimulatedPremium] = useState<boolean>(false);
-  
-  // State to track if payment is in progress
-  const [isSimulatingPurchase, setIsSimulatingPurchase] = useState<boolean>(false);
+  // Premium status of the signed-in parent account and how many videos it may approve (null = unlimited)
+  const { isPremium, selectionLimit } = useEntitlement();
 
   // State to track which video is currently playing
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
@@ -126,6 +166,28 @@ const ForYouScreen: React.FC = () => {
   // Reference to cache video status to avoid repeated API calls
   const videoStatusCache = useRef<{ [key: string]: AVPlaybackStatus | null }>({});
 
+  // Last playback position seen for each playing video (used to measure real watch time)
+  const lastPositions = useRef<{ [key: string]: number }>({});
+
+  // Videos with a logged play event that has not been closed by a pause, finish or error yet
+  const loggedPlaying = useRef<{ [key: string]: boolean }>({});
+
+  // Reference to the video list (used to scroll to the next page in pager mode)
+  const listRef = useRef<FlatList<VideoData>>(null);
+
+  // Height of the list area; each pager page is exactly this tall so it snaps one video at a time
+  const [pageHeight, setPageHeight] = useState<number>(0);
+
+  // Video on the page that is in view (pager mode autoplays it)
+  const [visibleVideoId, setVisibleVideoId] = useState<string | null>(null);
+
+  // FlatList does not allow these to change after mount, so they are created once
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 80 }).current;
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const firstVisible = viewableItems.find(token => token.isViewable);
+    setVisibleVideoId(firstVisible ? (firstVisible.item as VideoData).id : null);
+  }).current;
+
   // State to store videos from backend server
   const [backendVideos, setBackendVideos] = useState<VideoData[]>([]);
   
@@ -135,6 +197,30 @@ const ForYouScreen: React.FC = () => {
   // State to store any error from backend
   const [backendError, setBackendError] = useState<string | null>(null);
 
+  // State to track if the device was offline when the feed loaded (only downloads are shown then)
+  const [isOffline, setIsOffline] = useState<boolean>(false);
+
+  // State to track if the list on screen is the saved copy because the refresh failed
+  const [isShowingSaved, setIsShowingSaved] = useState<boolean>(false);
+
+  // Local thumbnail copies by remote URL (used instead of the remote URL when available)
+  const [cachedThumbnails, setCachedThumbnails] = useState<{ [key: string]: string }>({});
+
+  // Set once the backend has answered, so only fresh lists are written back to the cache
+  const catalogueIsFresh = useRef<boolean>(false);
+
+  // Cursor for the next catalogue page (null when everything has been loaded)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // State to track if another page is being loaded at the end of the list
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+
+  // State to track pull-to-refresh
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+
+  // Approved video IDs already requested by ID (so missing ones are not requested again and again)
+  const requestedApprovedIds = useRef<Set<string>>(new Set());
+
   // State to store video-specific errors
   const [videoErrors, setVideoErrors] = useState<{ [key: string]: VideoError }>({});
   
@@ -155,7 +241,21 @@ const ForYouScreen: React.FC = () => {
     }).catch(e => console.error("Failed to set audio mode:", e)); // Log error if fails
   }, []); // Empty array means this runs once when component loads
 
-  // useEffect to fetch videos from backend when component loads
+  // Loads one page of the catalogue; later pages are appended (deduplicated by ID).
+  // The first page goes to the top of the list; videos already shown from further down are kept while
+  // there are more pages, but dropped when the first page turns out to be the whole catalogue.
+  const loadPage = useCallback(async (cursor: string | null) => {
+    const { videos, nextCursor: cursorAfter } = await fetchVideoCatalogue({ cursor });
+    setBackendVideos(prev => {
+      if (cursor) return mergeVideos(prev, videos);
+      const freshIds = new Set(videos.map(v => v.id));
+      return mergeVideos(videos, cursorAfter ? prev.filter(v => !freshIds.has(v.id)) : []);
+    });
+    setNextCursor(cursorAfter);
+    catalogueIsFresh.current = true;
+  }, []);
+
+  // useEffect to fetch the first page of videos from backend when component loads
   useEffect(() => {
     // Define async function to fetch videos
     const fetchVideos = async () => {
@@ -164,49 +264,39 @@ const ForYouScreen: React.FC = () => {
       
       // Clear any previous errors
       setBackendError(null);
+
+      // Show the saved list straight away (if there is one) and refresh it in the background
+      const [cached, thumbnails] = await Promise.all([loadCachedCatalogue(), loadCachedThumbnails()]);
+      setCachedThumbnails(thumbnails);
+      if (cached) {
+        setBackendVideos(cached.videos);
+        setNextCursor(cached.nextCursor);
+        setBackendLoading(false);
+      }
       
       // Check if internet is working
       if (!(await checkNetworkStatus())) {
-        // If no internet, set error and stop loading
-        setBackendError("No internet connection.");
+        // If no internet, fall back to downloaded videos instead of showing an error
+        setIsOffline(true);
         setBackendLoading(false);
         return;
       }
+      setIsOffline(false);
       
       try {
-        // Create abort controller to cancel request if it takes too long
-        const controller = new AbortController();
-        
-        // Set timeout to cancel request after 15 seconds
-        const timeoutId = setTimeout(() => controller.abort(), 15000);
-        
-        // Make request to backend with timeout
-        const response = await fetch(BACKEND_URL, { signal: controller.signal });
-        
-        // Clear the timeout since request completed
-        clearTimeout(timeoutId);
-        
-        // Check if response is successful (status 200-299)
-        if (!response.ok) throw new Error(`HTTP Error: ${response.status}`);
-        
-        // Convert response to JSON
-        const data = await response.json();
-        
-        // Filter and clean the video data
-        const validVideos: VideoData[] = (data.videos || data)  // Use data.videos or fallback to data
-          .filter((v: any) => v && v.id && v.url)              // Only keep videos with id and url
-          .map((v: any) => ({ ...v, thumbnailUrl: v.thumbnailUrl || null })); // Ensure thumbnailUrl is null if missing
-        
-        // Update state with valid videos
-        setBackendVideos(validVideos);
+        // Request the first page (the API client handles the timeout and drops malformed items)
+        await loadPage(null);
+        setIsShowingSaved(false);
         
       } catch (err: any) {
-        // Handle different types of errors
-        const msg = err.name === 'AbortError' ? 'Request timed out.' : err.message;
-        
-        // Set error message and clear videos
-        setBackendError(msg);
-        setBackendVideos([]);
+        if (cached) {
+          // Keep showing the saved list and say so
+          setIsShowingSaved(true);
+        } else {
+          // Nothing saved to fall back on: set error message and clear videos
+          setBackendError(err.message);
+          setBackendVideos([]);
+        }
         
       } finally {
         // Always set loading to false when done (success or error)
@@ -216,19 +306,85 @@ const ForYouScreen: React.FC = () => {
     
     // Call the function
     fetchVideos();
-  }, []); // Empty array means this runs once when component loads
+  }, [loadPage]); // Runs once when component loads
+
+  // Loads the next page when the list is scrolled near the end
+  const handleEndReached = async () => {
+    // Approved-only mode shows the approved list, which is loaded by ID instead of by page
+    if ((isApprovedOnlyMode && !isBrowsing) || isOffline || !nextCursor || isLoadingMore || isRefreshing) return;
+
+    setIsLoadingMore(true);
+    try {
+      await loadPage(nextCursor);
+    } catch (err: any) {
+      console.warn('[handleEndReached] Failed to load more videos:', err.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Pull-to-refresh: reload from the first page and re-check approved videos
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      requestedApprovedIds.current.clear();
+      await loadPage(null);
+      setBackendError(null);
+      setIsOffline(false);                                       // Back online if the reload worked
+      setIsShowingSaved(false);                                  // The list is fresh again
+    } catch (err: any) {
+      Alert.alert('Refresh Failed', err.message);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // useEffect to fetch approved videos that are on pages not loaded yet
+  useEffect(() => {
+    if (!isApprovedOnlyMode || backendLoading || isOffline) return;
+
+    // Approved IDs we have neither loaded nor already asked for
+    const loadedIds = new Set(backendVideos.map(v => v.id));
+    const missingIds = selectedVideos.filter(id => !loadedIds.has(id) && !requestedApprovedIds.current.has(id));
+    if (missingIds.length === 0) return;
+
+    missingIds.forEach(id => requestedApprovedIds.current.add(id));
+    fetchVideosByIds(missingIds)
+      .then(videos => setBackendVideos(prev => mergeVideos(prev, videos)))
+      .catch(err => console.warn('[fetchVideosByIds] Failed to load approved videos:', err.message));
+  }, [isApprovedOnlyMode, selectedVideos, backendVideos, backendLoading, isOffline]);
+
+  // useEffect to save the list for the next launch whenever it has been loaded from the backend
+  // (and to pick up new or removed thumbnail copies, so the feed never points at a deleted file)
+  useEffect(() => {
+    if (!catalogueIsFresh.current || isOffline) return;
+    saveCatalogue(backendVideos, nextCursor)
+      .then(thumbnails => { if (thumbnails) setCachedThumbnails(thumbnails); })
+      .catch((e: Error) => console.warn('[saveCatalogue] Failed to save videos:', e.message));
+  }, [backendVideos, nextCursor, isOffline]);
 
   // useEffect to filter videos based on approved mode
   useEffect(() => {
-    // If in approved mode, only show selected videos, otherwise show all
-    const videosToDisplay = isApprovedOnlyMode
-      ? backendVideos.filter(v => selectedVideos.includes(v.id))  // Filter to only selected videos
-      : backendVideos;                                            // Show all videos
+    // Offline, only the downloaded copies can play, so they are the whole catalogue
+    const sourceVideos = isOffline
+      ? Object.keys(downloads).map(getOfflineVideo).filter((v): v is VideoData => !!v)
+      : backendVideos.map(v => {
+          const localThumbnail = v.thumbnailUrl ? cachedThumbnails[v.thumbnailUrl] : undefined;
+          return localThumbnail ? { ...v, thumbnailUrl: localThumbnail } : v;          // Prefer local thumbnails
+        });
+
+    // If in approved mode, only show selected videos (in the order they were approved), otherwise show all
+    // (browse mode shows everything too, with the non-approved videos locked)
+    const videosToDisplay = isApprovedOnlyMode && !isBrowsing
+      ? selectedVideos
+          .map(id => sourceVideos.find(v => v.id === id))           // Look up each approved video
+          .filter((v): v is VideoData => !!v)                        // Skip ones not loaded yet
+      : sourceVideos;                                             // Show all videos
     
     // Update filtered videos state
     setFilteredVideos(videosToDisplay);
     
-  }, [selectedVideos, isApprovedOnlyMode, backendVideos]); // Run when these values change
+  }, [selectedVideos, isApprovedOnlyMode, isBrowsing, backendVideos, isOffline, downloads, cachedThumbnails]); // Run when these values change
 
   // useEffect to handle video playback when user wants to play a video
   useEffect(() => {
@@ -244,7 +400,8 @@ const ForYouScreen: React.FC = () => {
       const videoRef = videoRefs.current[videoId];
       
       // Find the video data for this ID
-      const videoData = backendVideos.find(v => v.id === videoId);
+      // (a downloaded copy is preferred so it plays from local storage)
+      const videoData = getOfflineVideo(videoId) ?? backendVideos.find(v => v.id === videoId);
 
       // Clear any previous errors for this video
       setVideoErrors(prev => { 
@@ -286,8 +443,11 @@ const ForYouScreen: React.FC = () => {
         // Unload any previous video
         await videoRef.unloadAsync();
         
-        // Load the new video and start playing
-        const status = await videoRef.loadAsync({ uri: videoData.url }, { shouldPlay: true });
+        // Load the new video and start playing (from the saved position, if the child stopped part way)
+        const status = await videoRef.loadAsync(
+          { uri: videoData.url },
+          { shouldPlay: true, positionMillis: playbackPositions.getResumePosition(videoId) }
+        );
 
         // Clear timeout since loading completed
         if (loadingTimeoutId) clearTimeout(loadingTimeoutId);
@@ -322,12 +482,108 @@ const ForYouScreen: React.FC = () => {
       performPlayback();
     }
     
-  }, [videoToPlayIntent, backendVideos]); // Run when these values change
+  }, [videoToPlayIntent, backendVideos, downloads]); // Run when these values change
+
+  // useEffect to stop playback as soon as today's screen time runs out
+  useEffect(() => {
+    if (!screenTime.isTimeUp || !currentlyPlaying) return;
+
+    // Stop and unload whatever is playing, the lock screen takes over
+    const videoRef = videoRefs.current[currentlyPlaying];
+    videoRef?.pauseAsync().then(() => videoRef.unloadAsync()).catch((e: Error) => console.warn(e.message));
+    logWatchEvent('pause', currentlyPlaying, lastPositions.current[currentlyPlaying] ?? null);
+    delete lastPositions.current[currentlyPlaying];
+    setCurrentlyPlaying(null);
+  }, [screenTime.isTimeUp, currentlyPlaying]);
+
+  // useEffect to wind down gracefully when a blocked schedule window starts
+  useEffect(() => {
+    if (!lockNotice) return;
+
+    // Nothing playing: the lock screen can take over straight away
+    if (!currentlyPlaying) {
+      onLockReady?.();
+      return;
+    }
+
+    // Pause the current video and leave the friendly message up for a moment
+    videoRefs.current[currentlyPlaying]?.pauseAsync().catch((e: Error) => console.warn(e.message));
+    const timeoutId = setTimeout(() => onLockReady?.(), LOCK_NOTICE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [lockNotice]);
+
+  // useEffect to autoplay the page in view in pager mode (the page scrolled away from is unloaded)
+  useEffect(() => {
+    if (!pagerMode || !visibleVideoId || lockNotice || screenTime.isTimeUp) return;
+    if (visibleVideoId === currentlyPlaying || videoErrors[visibleVideoId]) return;
+
+    const startVisiblePage = async () => {
+      // Free the previous player so only one video is loaded at a time
+      if (currentlyPlaying) {
+        await videoRefs.current[currentlyPlaying]?.unloadAsync().catch((e: Error) => console.warn(e.message));
+        logWatchEvent('pause', currentlyPlaying, lastPositions.current[currentlyPlaying] ?? null);
+        delete lastPositions.current[currentlyPlaying];
+      }
+
+      // Check internet connection first (downloaded videos play without it)
+      if (!downloads[visibleVideoId] && !(await checkNetworkStatus())) {
+        handleVideoError(visibleVideoId, new Error('No internet connection.'));
+        return;
+      }
+      setVideoToPlayIntent(visibleVideoId);
+    };
+    startVisiblePage();
+  }, [pagerMode, visibleVideoId, screenTime.isTimeUp]);
+
+  // Function to handle a video reaching its end in pager mode: scroll on to the next one or play it again
+  const handlePagerVideoFinished = (videoId: string) => {
+    const index = filteredVideos.findIndex(v => v.id === videoId);
+    if (autoAdvance && index >= 0 && index < filteredVideos.length - 1) {
+      listRef.current?.scrollToIndex({ index: index + 1, animated: true });   // Autoplay picks up the new page
+    } else {
+      videoRefs.current[videoId]?.replayAsync().catch((e: Error) => handleVideoError(videoId, e));
+    }
+  };
+
+  // Function to play a video picked from the "Continue watching" row (scrolls to it first)
+  const handleContinueWatching = (videoId: string) => {
+    const index = filteredVideos.findIndex(v => v.id === videoId);
+    if (index < 0) return;
+    listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0 });
+
+    // The pager autoplays the page it lands on; the card list needs the card rendered before it can play
+    if (!pagerMode) setTimeout(() => handleVideoPlayback(videoId), SCROLL_SETTLE_MS);
+  };
+
+  // Function to add a play, pause, finish or error event to the active profile's watch history.
+  // Pauses are only logged after a logged play, so stopping a video twice is not counted twice.
+  const logWatchEvent = (type: WatchEventType, videoId: string, positionMillis: number | null, message?: string) => {
+    if (!activeProfile) return;
+    if (type === 'play') {
+      loggedPlaying.current[videoId] = true;
+    } else {
+      if (type === 'pause' && !loggedPlaying.current[videoId]) return;
+      delete loggedPlaying.current[videoId];
+    }
+
+    const video = backendVideos.find(v => v.id === videoId) ?? downloads[videoId]?.video;
+    recordWatchEvent(activeProfile.id, {
+      type,
+      videoId,
+      videoTitle: video?.filename || 'Untitled Video',
+      timestamp: Date.now(),
+      positionMillis,
+      message,
+    });
+  };
 
   // Function to handle video errors
   const handleVideoError = (videoId: string, error: Error) => {
     // Get error message or use default
     const errorMessage = error.message || 'An unknown video error occurred';
+
+    // Log the error in the watch history
+    logWatchEvent('error', videoId, lastPositions.current[videoId] ?? null, errorMessage);
     
     // Add error to video errors state
     setVideoErrors(prev => ({ ...prev, [videoId]: { message: errorMessage } }));
@@ -367,8 +623,8 @@ const ForYouScreen: React.FC = () => {
 
   // Function to handle play/pause when user taps video
   const handleVideoPlayback = async (videoId: string) => {
-    // Check internet connection first
-    if (!(await checkNetworkStatus())) {
+    // Check internet connection first (downloaded videos play without it)
+    if (!downloads[videoId] && !(await checkNetworkStatus())) {
       handleVideoError(videoId, new Error('No internet connection.'));
       return;
     }
@@ -411,234 +667,134 @@ const ForYouScreen: React.FC = () => {
     }
   };
 
-  // Function to handle selecting/unselecting videos
-  const handleToggleVideoSelection = (videoId: string) => {
-    // Don't allow selection during payment process
-    if (isSimulatingPurchase) return;
-    
+  // Function to handle selecting/unselecting videos (behind the parental check, skipped during a parent session)
+  const handleToggleVideoSelection = (videoId: string) => approvalGate.runProtected(() => {
     // Check if video is currently selected
     const isCurrentlySelected = selectedVideos.includes(videoId);
     
-    // If trying to select new video, at limit, and not premium
-    if (!isCurrentlySelected && selectedVideos.length >= MAX_FREE_SELECTIONS && !hasSimulatedPremium) {
-      // Show premium upgrade alert
-      Alert.alert(
-        "Unlock Premium",                                           // Title
-        `Select up to ${MAX_FREE_SELECTIONS} videos for free. Unlock unlimited access for $9.99?`,  // Message
-        [
-          { text: "Not Now", style: "cancel" },                     // Cancel button
-          { text: "Unlock Premium", onPress: () => handleStripePayment(() => toggleVideoSelectionInContext(videoId)) }  // Purchase button
-        ]
-      );
+    // If trying to select new video at the current plan's limit, offer the plans
+    if (!isCurrentlySelected && selectionLimit !== null && selectedVideos.length >= selectionLimit) {
+      router.push({ pathname: '/Plans', params: { videoId } });    // The picker approves the video after buying
       return;
     }
     
     // Otherwise, toggle selection normally
     toggleVideoSelectionInContext(videoId);
-  };
-
-  // *** ENHANCED STRIPE PAYMENT FUNCTION WITH USER DETAILS ***
-  // Function to handle premium purchase
-  const handleStripePayment = async (callbackAfterUnlock?: () => void) => {
-    // Check internet connection
-    if (!(await checkNetworkStatus())) {
-      Alert.alert("Error", "No internet connection. Please check your network and try again.");
-      return;
-    }
-
-    // Set payment in progress
-    setIsSimulatingPurchase(true);
+  });
 
-    try {
-      // Get current user from Firebase Auth
-      const currentUser = auth.currentUser;
-      if (!currentUser) {
-        throw new Error('User not authenticated. Please log in first.');
-      }
+  // Function to format time in MM:SS format
+  const formatTime = (seconds?: number): string => {
+    // Check if seconds is valid
+    if (seconds === undefined || isNaN(seconds)) return 'N/A';
+    
+    // Calculate minutes and seconds
+    const mins = Math.floor(seconds / 60);                        // Get whole minutes
+    const secs = Math.floor(seconds % 60);                        // Get remaining seconds
+    
+    // Return formatted string with zero padding
+    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+  };
 
-      // Gather user and device information
-      const userDetails = {
-        userId: currentUser.uid,                                                    // Firebase user ID
-        userName: currentUser.displayName || currentUser.email?.split('@')[0] || 'User',  // User name with fallbacks
-        userEmail: currentUser.email || '',                                        // User email
-        deviceInfo: JSON.stringify({                                               // Device info as JSON string
-          deviceName: Device.deviceName || 'Unknown Device',                       // Phone name
-          deviceType: Device.deviceType || 'Unknown',                              // Phone type
-          osName: Device.osName || 'Unknown OS',                                   // Operating system
-          osVersion: Device.osVersion || 'Unknown Version',                        // OS version
-          modelName: Device.modelName || 'Unknown Model',                          // Phone model
-          brand: Device.brand || 'Unknown Brand'                                   // Phone brand
-        }),
-        appVersion: Constants.expoConfig?.version || '1.0.0',                      // App version
-        purchaseType: 'unlimited_video_selection'                                  // What user is buying
-      };
-
-      // Log user details (for debugging)
-      console.log('Creating payment intent with user details:', {
-        userId: userDetails.userId,
-        userName: userDetails.userName,
-        userEmail: userDetails.userEmail
-      });
+  // Function to handle status updates from a video player (shared by the list and the pager)
+  const handlePlaybackStatusUpdate = (videoId: string, status: AVPlaybackStatus) => {
+    // Cache the status
+    videoStatusCache.current[videoId] = status;
 
-      // Step 1: Create payment intent on backend with user details
-      const response = await fetch(STRIPE_PAYMENT_URL, {
-        method: 'POST',                                           // POST request
-        headers: {
-          'Content-Type': 'application/json',                     // JSON content
-        },
-        body: JSON.stringify(userDetails),                        // Send user details
-      });
+    // Count real playback time towards today's allowance
+    if (status.isLoaded && status.isPlaying) {
+      // Started or resumed: log it once
+      if (!loggedPlaying.current[videoId]) logWatchEvent('play', videoId, status.positionMillis);
 
-      // Check if request was successful
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP Error: ${response.status}`);
+      const lastPosition = lastPositions.current[videoId];
+      if (lastPosition !== undefined) {
+        const deltaSeconds = (status.positionMillis - lastPosition) / 1000;
+        if (deltaSeconds > 0 && deltaSeconds < 5) screenTime.addWatchTime(deltaSeconds);  // Ignore seeks
       }
+      lastPositions.current[videoId] = status.positionMillis;
 
-      // Get payment data from response
-      const paymentData = await response.json();
-      console.log('Payment intent created successfully:', paymentData.paymentIntentId);
-
-      // Step 2: Initialize payment sheet with user information
-      const { error: initError } = await initPaymentSheet({
-        merchantDisplayName: 'Kid Tok Premium',                   // Store name
-        paymentIntentClientSecret: paymentData.clientSecret,      // Payment secret from backend
-        defaultBillingDetails: {                                  // Pre-fill user info
-          name: userDetails.userName,                             // User name
-          email: userDetails.userEmail,                           // User email
-        },
-        appearance: {                                             // Customize payment sheet look
-          colors: {
-            primary: '#007AFF',                                   // Primary color (blue)
-            background: '#ffffff',                                // Background color (white)
-            componentBackground: '#f6f6f6',                       // Component background (light gray)
-          },
-          shapes: {
-            borderRadius: 12,                                     // Rounded corners
-          },
-        },
-        applePay: {                                               // Apple Pay settings
-          merchantCountryCode: 'US',                              // Country code
-        },
-        googlePay: {                                              // Google Pay settings
-          merchantCountryCode: 'US',                              // Country code
-          testEnv: __DEV__,                                       // Use test environment in development
-        },
-      });
-
-      // Check if payment sheet initialization failed
-      if (initError) {
-        console.error('Payment sheet initialization error:', initError);
-        throw new Error(initError.message);
+      // Remember the position so the video can resume here next time
+      playbackPositions.recordPosition(videoId, status.positionMillis, status.durationMillis ?? null);
+    } else {
+      // Paused or unloaded (a finished video is logged as finished below instead)
+      if (!(status.isLoaded && status.didJustFinish)) {
+        logWatchEvent('pause', videoId, status.isLoaded ? status.positionMillis : lastPositions.current[videoId] ?? null);
       }
+      delete lastPositions.current[videoId];
+    }
 
-      console.log('Payment sheet initialized successfully');
-
-      // Step 3: Present payment sheet to user
-      const { error: paymentError } = await presentPaymentSheet();
-
-      // Check if payment was cancelled or failed
-      if (paymentError) {
-        console.log('Payment cancelled or failed:', paymentError.message);
-        
-        // Only show error if not cancelled by user
-        if (paymentError.code !== 'Canceled') {
-          Alert.alert('Payment Failed', paymentError.message);
+    // A video watched to the end starts from the beginning next time
+    if (status.isLoaded && status.didJustFinish) {
+      logWatchEvent('finish', videoId, status.durationMillis ?? status.positionMillis);
+      playbackPositions.clearPosition(videoId);
+    }
+    
+    // Handle status changes for currently playing video
+    if (videoId === currentlyPlaying && status.isLoaded) {
+        // Check for errors in status
+        if ('error' in status && typeof status.error === 'string') {
+          handleVideoError(videoId, new Error(status.error));
+        } 
+        // Check if video finished playing
+        else if (status.didJustFinish) {
+          if (pagerMode) {
+            handlePagerVideoFinished(videoId);                  // Next page or replay
+          } else {
+            videoRefs.current[videoId]?.unloadAsync();          // Unload video
+            setCurrentlyPlaying(null);                          // Clear currently playing
+          }
         }
-        return;
-      }
+    }
+  };
 
-      // Step 4: Payment successful - confirm with backend
-      console.log('Payment successful! Confirming with backend...');
-      
-      try {
-        // Send confirmation to backend
-        const confirmResponse = await fetch(STRIPE_CONFIRM_URL, {
-          method: 'POST',                                         // POST request
-          headers: {
-            'Content-Type': 'application/json',                   // JSON content
-          },
-          body: JSON.stringify({                                  // Send payment info
-            paymentIntentId: paymentData.paymentIntentId,         // Payment ID
-            userId: userDetails.userId,                           // User ID
-          }),
-        });
+  // Function to send a "please approve this" request for a locked video
+  const handleAskParent = async (video: VideoData) => {
+    await requestVideo({
+      videoId: video.id,
+      videoTitle: video.filename || 'Untitled Video',
+      thumbnailUrl: backendVideos.find(v => v.id === video.id)?.thumbnailUrl ?? null,  // Remote URL, not the local copy
+    });
+    Alert.alert("Request Sent", "A grown-up will take a look soon!");
+  };
 
-        // Check confirmation result
-        if (confirmResponse.ok) {
-          console.log('Payment confirmed with backend');
-        } else {
-          console.warn('Failed to confirm payment with backend, but payment was successful');
-        }
-      } catch (confirmError) {
-        console.warn('Error confirming payment with backend:', confirmError);
-        // Don't fail the whole flow if confirmation fails
-      }
+  // Function to render a video that is not approved yet (browse mode): a locked tile with "Ask parent"
+  const renderLockedItem = (item: VideoData) => {
+    const isRequested = videoRequests.some(r => r.videoId === item.id);  // Already asked?
 
-      // Step 5: Update local state and show success message
-      setHasSimulatedPremium(true);                               // Mark user as premium
-      
-      // Show success message
-      Alert.alert(
-        "Premium Unlocked! 🎉",                                   // Title with emoji
-        `Welcome to Kid Tok Premium, ${userDetails.userName}!\n\nYou now have unlimited access to select videos. Thank you for your purchase!\n\nReceipt sent to: ${userDetails.userEmail}`,  // Message
-        [
-          { 
-            text: "Great!",                                       // Button text
-            onPress: () => {
-              console.log('Premium activated for user:', userDetails.userId);
-              callbackAfterUnlock?.();                            // Call callback if provided
-            }
-          }
-        ]
-      );
-
-      // Log successful purchase for analytics
-      console.log('Premium purchase completed:', {
-        userId: userDetails.userId,
-        userName: userDetails.userName,
-        paymentIntentId: paymentData.paymentIntentId,
-        amount: paymentData.amount,
-        timestamp: new Date().toISOString()
-      });
+    return (
+      <View style={styles.videoContainer}>
+        <View style={styles.videoPlayerContainer}>
+          {/* Dimmed thumbnail */}
+          <Image
+            source={item.thumbnailUrl ? { uri: item.thumbnailUrl } : require('../assets/video-placeholder.png')}
+            style={[styles.thumbnail, styles.lockedThumbnail]}
+            resizeMode="cover"
+          />
 
-    } catch (error: any) {
-      console.error('Payment process error:', error);
-      
-      // Show specific error messages based on error type
-      let errorMessage = 'Something went wrong. Please try again.';      // Default message
-      
-      // Check for specific error types and customize message
-      if (error.message.includes('User not authenticated')) {
-        errorMessage = 'Please log in to make a purchase.';
-      } else if (error.message.includes('network') || error.message.includes('fetch')) {
-        errorMessage = 'Network error. Please check your connection and try again.';
-      } else if (error.message.includes('email')) {
-        errorMessage = 'Please ensure your account has a valid email address.';
-      } else if (error.message) {
-        errorMessage = error.message;                             // Use actual error message
-      }
-      
-      // Show error alert
-      Alert.alert("Payment Error", errorMessage);
-      
-    } finally {
-      // Always stop payment process indicator
-      setIsSimulatingPurchase(false);
-    }
-  };
+          {/* Lock with the ask button, or a note that the parent has been asked */}
+          <View style={styles.lockedOverlay}>
+            <Ionicons name="lock-closed" size={36} color="#fff" />
+            {isRequested ? (
+              <View style={styles.askedBadge}>
+                <Ionicons name="hourglass-outline" size={16} color="#fff" />
+                <Text style={styles.askButtonText}>Asked parent</Text>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.askButton} onPress={() => handleAskParent(item)}>
+                <Ionicons name="hand-left" size={16} color="#fff" />
+                <Text style={styles.askButtonText}>Ask parent</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
 
-  // Function to format time in MM:SS format
-  const formatTime = (seconds?: number): string => {
-    // Check if seconds is valid
-    if (seconds === undefined || isNaN(seconds)) return 'N/A';
-    
-    // Calculate minutes and seconds
-    const mins = Math.floor(seconds / 60);                        // Get whole minutes
-    const secs = Math.floor(seconds % 60);                        // Get remaining seconds
-    
-    // Return formatted string with zero padding
-    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+        {/* Video info section */}
+        <View style={styles.videoInfoContainer}>
+          <Text style={styles.videoTitle} numberOfLines={2}>
+            {item.filename || 'Untitled Video'}
+          </Text>
+        </View>
+      </View>
+    );
   };
 
   // Function to render each video item in the list
@@ -648,6 +804,10 @@ const ForYouScreen: React.FC = () => {
 
     // Check various states for this video
     const isSelected = selectedVideos.includes(item.id);          // Is video selected?
+
+    // Not approved yet (only shown in browse mode): locked, no player
+    if (isApprovedOnlyMode && !isSelected) return renderLockedItem(item);
+
     const isPlaying = currentlyPlaying === item.id;               // Is video playing?
     const hasError = !!videoErrors[item.id];                      // Does video have error?
     const canRetry = (retryAttempts[item.id] || 0) < MAX_RETRY_ATTEMPTS;  // Can retry?
@@ -711,23 +871,7 @@ const ForYouScreen: React.FC = () => {
             ]}
             useNativeControls={false}                               // Don't show default controls
             resizeMode={ResizeMode.CONTAIN}                         // Fit video in container
-            onPlaybackStatusUpdate={(status: AVPlaybackStatus) => {
-              // Cache the status
-              videoStatusCache.current[item.id] = status;
-              
-              // Handle status changes for currently playing video
-              if (item.id === currentlyPlaying && status.isLoaded) {
-                  // Check for errors in status
-                  if ('error' in status && typeof status.error === 'string') {
-                    handleVideoError(item.id, new Error(status.error));
-                  } 
-                  // Check if video finished playing
-                  else if (status.didJustFinish) {
-                    videoRefs.current[item.id]?.unloadAsync();      // Unload video
-                    setCurrentlyPlaying(null);                      // Clear currently playing
-                  }
-              }
-            }}
+            onPlaybackStatusUpdate={(status: AVPlaybackStatus) => handlePlaybackStatusUpdate(item.id, status)}
             onError={(errorMsg: string) => {
               // Handle video player errors
               handleVideoError(item.id, new Error(`Player error: ${errorMsg}`));
@@ -741,14 +885,16 @@ const ForYouScreen: React.FC = () => {
               {item.formattedDuration || formatTime(item.duration)}
             </Text>
             
-            {/* Video selection checkbox */}
-            <TouchableOpacity style={styles.selectButton} onPress={() => handleToggleVideoSelection(item.id)}>
-              <Ionicons 
-                name={isSelected ? "checkbox" : "checkbox-outline"}  // Filled or outline checkbox
-                size={28} 
-                color={isSelected ? "#4CAF50" : "#FFFFFF"}           // Green if selected, white if not
-              />
-            </TouchableOpacity>
+            {/* Video selection checkbox (hidden in restricted mode; tapping it asks for the parental check) */}
+            {!isApprovedOnlyMode && (
+              <TouchableOpacity style={styles.selectButton} onPress={() => handleToggleVideoSelection(item.id)}>
+                <Ionicons 
+                  name={isSelected ? "checkbox" : "checkbox-outline"}  // Filled or outline checkbox
+                  size={28} 
+                  color={isSelected ? "#4CAF50" : "#FFFFFF"}           // Green if selected, white if not
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -770,10 +916,143 @@ const ForYouScreen: React.FC = () => {
     );
   };
 
-  // Show loading screen while settings or videos are loading, or payment is processing
-  if (settingsLoading || backendLoading || isSimulatingPurchase) {
+  // Partly watched approved videos, most recently watched first
+  const continueWatchingVideos = filteredVideos
+    .filter(v => selectedVideos.includes(v.id) && playbackPositions.positions[v.id])
+    .sort((a, b) => playbackPositions.positions[b.id].updatedAt - playbackPositions.positions[a.id].updatedAt);
+
+  // Function to render the "Continue watching" row (nothing when no approved video is part way through)
+  const renderContinueWatching = () => {
+    if (continueWatchingVideos.length === 0) return null;
+
+    return (
+      <View style={styles.continueContainer}>
+        <Text style={styles.continueTitle}>Continue watching</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {continueWatchingVideos.map(video => {
+            const position = playbackPositions.positions[video.id];
+            const progress = position.durationMillis ? Math.min(1, position.positionMillis / position.durationMillis) : 0;
+            return (
+              <TouchableOpacity key={video.id} style={styles.continueItem} onPress={() => handleContinueWatching(video.id)}>
+                <Image
+                  source={video.thumbnailUrl ? { uri: video.thumbnailUrl } : require('../assets/video-placeholder.png')}
+                  style={styles.continueThumbnail}
+                  resizeMode="cover"
+                />
+                {/* How far the video has been watched */}
+                <View style={styles.continueProgressTrack}>
+                  <View style={[styles.continueProgressFill, { width: `${progress * 100}%` }]} />
+                </View>
+                <Text style={styles.continueItemTitle} numberOfLines={1}>
+                  {video.filename || 'Untitled Video'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  // Function to render one full-screen page in pager mode
+  const renderPagerItem: ListRenderItem<VideoData> = ({ item }) => {
+    // Don't render if item is invalid
+    if (!item?.id || !item.url) return null;
+
+    // Check various states for this video
+    const isSelected = selectedVideos.includes(item.id);          // Is video selected?
+    const isPlaying = currentlyPlaying === item.id;               // Is video playing?
+    const hasError = !!videoErrors[item.id];                      // Does video have error?
+    const canRetry = (retryAttempts[item.id] || 0) < MAX_RETRY_ATTEMPTS;  // Can retry?
+    const showVideoPlayer = isPlaying && !hasError;               // Should show video player?
+
+    return (
+      <View style={[styles.pagerPage, { height: pageHeight }]}>
+        {/* Tap anywhere on the page to pause or resume */}
+        <TouchableOpacity
+          style={styles.pagerTouchArea}
+          activeOpacity={1}
+          onPress={() => handleVideoPlayback(item.id)}
+          disabled={hasError}
+        >
+          {/* Thumbnail until the video is playing */}
+          {!showVideoPlayer && (
+            <Image
+              source={
+                hasError
+                  ? require('../assets/video-error.png')                              // Error image
+                  : (item.thumbnailUrl
+                      ? { uri: item.thumbnailUrl }                                    // Thumbnail from URL
+                      : require('../assets/video-placeholder.png'))                  // Placeholder image
+              }
+              style={styles.pagerThumbnail}
+              resizeMode="contain"
+            />
+          )}
+
+          {/* Video player component */}
+          <Video
+            ref={(r: Video | null) => { videoRefs.current[item.id] = r; }}  // Store reference to this video player
+            style={[
+              styles.pagerVideo,
+              !showVideoPlayer && { opacity: 0 }                   // Hide until playing
+            ]}
+            useNativeControls={false}                               // Don't show default controls
+            resizeMode={ResizeMode.CONTAIN}                         // Fit video in the page
+            onPlaybackStatusUpdate={(status: AVPlaybackStatus) => handlePlaybackStatusUpdate(item.id, status)}
+            onError={(errorMsg: string) => {
+              // Handle video player errors
+              handleVideoError(item.id, new Error(`Player error: ${errorMsg}`));
+            }}
+          />
+        </TouchableOpacity>
+
+        {/* Error overlay with retry */}
+        {hasError && (
+          <View style={styles.errorOverlay}>
+            <Ionicons name="alert-circle" size={40} color="#FF3B30" />
+            <Text style={styles.errorTextDetail}>
+              {videoErrors[item.id]?.message || 'Video error'}
+            </Text>
+            {canRetry ? (
+              <TouchableOpacity style={styles.retryButton} onPress={() => retryVideo(item.id)}>
+                <Ionicons name="refresh" size={16} color="#FFF" />
+                <Text style={styles.retryText}>Retry</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.maxRetriesText}>Max retries reached.</Text>
+            )}
+          </View>
+        )}
+
+        {/* Title and duration along the bottom */}
+        <View style={styles.pagerInfo} pointerEvents="none">
+          <Text style={styles.pagerTitle} numberOfLines={2}>
+            {item.filename || 'Untitled Video'}
+          </Text>
+          <Text style={styles.pagerDuration}>
+            {item.formattedDuration || formatTime(item.duration)}
+          </Text>
+        </View>
+
+        {/* Video selection checkbox on the right edge (hidden in restricted mode; tapping it asks for the parental check) */}
+        {!isApprovedOnlyMode && (
+          <TouchableOpacity style={styles.pagerSelectButton} onPress={() => handleToggleVideoSelection(item.id)}>
+            <Ionicons
+              name={isSelected ? "checkbox" : "checkbox-outline"}  // Filled or outline checkbox
+              size={34}
+              color={isSelected ? "#4CAF50" : "#FFFFFF"}           // Green if selected, white if not
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // Show loading screen while settings or videos are loading
+  if (settingsLoading || backendLoading) {
     // Determine what message to show
-    let msg = isSimulatingPurchase ? "Processing Payment..." : settingsLoading ? "Settings..." : "Videos...";
+    let msg = settingsLoading ? "Settings..." : "Videos...";
     
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -783,6 +1062,11 @@ const ForYouScreen: React.FC = () => {
     );
   }
   
+  // Show the locked screen once today's watch time is used up
+  if (screenTime.isTimeUp) {
+    return <TimesUpScreen usedSeconds={screenTime.usedSeconds} onGrantBonus={screenTime.grantBonusTime} />;
+  }
+
   // Show error screen if backend failed
   if (backendError) {
     return (
@@ -808,36 +1092,117 @@ const ForYouScreen: React.FC = () => {
       {/* Header section */}
       <View style={styles.header}>
         <Text style={styles.appTitle}>Kid Tok</Text>
+
+        {/* Active profile chip, tap (then the hold check) to go back to the profile picker */}
+        {activeProfile && (
+          <TouchableOpacity
+            style={styles.profileChip}
+            onPress={() => runProtected(() => selectProfile(null))}
+            disabled={profiles.length < 2}                      // Nothing to switch to with one profile
+          >
+            <Text style={styles.profileAvatar}>{activeProfile.avatar}</Text>
+            <Text style={styles.profileName} numberOfLines={1}>{activeProfile.name}</Text>
+            {profiles.length > 1 && <Ionicons name="swap-horizontal" size={16} color="#007AFF" />}
+          </TouchableOpacity>
+        )}
       </View>
       
+      {/* Offline banner when only downloaded videos are available */}
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline" size={16} color="#fff" />
+          <Text style={styles.offlineBannerText}>Offline: showing downloaded videos</Text>
+        </View>
+      )}
+
+      {/* Banner when the refresh failed and the saved list is shown instead */}
+      {!isOffline && isShowingSaved && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="time-outline" size={16} color="#fff" />
+          <Text style={styles.offlineBannerText}>Couldn't refresh: showing saved videos</Text>
+        </View>
+      )}
+      
       {/* Info section showing current mode and limits */}
       <View style={styles.infoContainer}>
         <Text style={styles.infoText}>
-          {isApprovedOnlyMode
+          {isBrowsing
+            ? "Find More Videos"                                               // Browse-and-request mode
+            : isApprovedOnlyMode
             ? `Approved Videos (${selectedVideos.length})`                     // Show approved count
-            : hasSimulatedPremium
+            : selectionLimit === null
               ? "All Videos (Premium) 💎"                                      // Show premium status
-              : `All Videos (Free: ${Math.max(0, MAX_FREE_SELECTIONS - selectedVideos.length)} left)`  // Show remaining free selections
+              : `All Videos (${isPremium ? 'Premium' : 'Free'}: ${Math.max(0, selectionLimit - selectedVideos.length)} left)`  // Show remaining selections
           }
+          {screenTime.remainingSeconds !== null && ` · ${formatMinutes(screenTime.remainingSeconds)} left today`}
         </Text>
+
+        {/* Switch between the approved list and browsing for more (restricted mode only) */}
+        {isApprovedOnlyMode && !isOffline && (
+          <TouchableOpacity style={styles.browseToggle} onPress={() => setBrowseAll(b => !b)}>
+            <Ionicons name={isBrowsing ? "checkmark-done" : "search"} size={16} color="#007AFF" />
+            <Text style={styles.browseToggleText}>{isBrowsing ? "My videos" : "Find more"}</Text>
+          </TouchableOpacity>
+        )}
       </View>
       
-      {/* Video list */}
-      <FlatList
-        data={filteredVideos}                                   // Videos to display
-        renderItem={renderVideoItem}                            // Function to render each video
-        keyExtractor={item => item.id}                          // Use video ID as unique key
-        contentContainerStyle={styles.videosList}              // Styling for list container
-        ListEmptyComponent={                                    // What to show when list is empty
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No videos to show.</Text>
-          </View>
-        }
-        extraData={{ selectedVideos, currentlyPlaying, videoErrors }}  // Extra data to trigger re-renders
-        initialNumToRender={4}                                  // Render 4 items initially
-        maxToRenderPerBatch={4}                                 // Render 4 items per batch
-        windowSize={8}                                          // Keep 8 items in memory
-      />
+      {/* Pages must fill the list area, so the pager shows "Continue watching" above it instead of in the list */}
+      {pagerMode && renderContinueWatching()}
+
+      {/* Video list (cards, or one full-screen page per video in pager mode) */}
+      <View style={styles.listArea} onLayout={e => setPageHeight(e.nativeEvent.layout.height)}>
+        <FlatList
+          ref={listRef}
+          key={pagerMode ? 'pager' : 'list'}                      // Start fresh when the layout changes
+          data={pagerMode && pageHeight === 0 ? [] : filteredVideos}  // Pages need the measured height first
+          renderItem={pagerMode ? renderPagerItem : renderVideoItem}  // Function to render each video
+          keyExtractor={item => item.id}                          // Use video ID as unique key
+          contentContainerStyle={pagerMode ? undefined : styles.videosList}  // Styling for list container
+          pagingEnabled={pagerMode}                               // Snap one page at a time in pager mode
+          showsVerticalScrollIndicator={!pagerMode}               // No scroll bar over full-screen videos
+          getItemLayout={pagerMode                                // Fixed page height lets scrollToIndex jump straight there
+            ? (_, index) => ({ length: pageHeight, offset: pageHeight * index, index })
+            : undefined}
+          onViewableItemsChanged={onViewableItemsChanged}         // Track the page in view
+          viewabilityConfig={viewabilityConfig}                   // Mostly on screen counts as in view
+          onScrollToIndexFailed={info => {                        // Card not measured yet: jump close, then retry
+            listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+            setTimeout(() => listRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0 }), 100);
+          }}
+          ListHeaderComponent={pagerMode ? null : renderContinueWatching()}  // Partly watched videos above the cards
+          ListEmptyComponent={                                    // What to show when list is empty
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {isOffline ? 'No downloaded videos. Connect to the internet to watch more.' : 'No videos to show.'}
+              </Text>
+            </View>
+          }
+          extraData={{ selectedVideos, currentlyPlaying, videoErrors, pageHeight, positions: playbackPositions.positions, videoRequests }}  // Extra data to trigger re-renders
+          onEndReached={handleEndReached}                         // Load the next page near the end
+          onEndReachedThreshold={0.5}                             // Start loading half a screen early
+          refreshControl={                                        // Pull down to reload from the first page
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+          }
+          ListFooterComponent={                                   // Spinner while the next page loads
+            isLoadingMore ? <ActivityIndicator style={styles.loadMoreSpinner} /> : null
+          }
+          initialNumToRender={4}                                  // Render 4 items initially
+          maxToRenderPerBatch={4}                                 // Render 4 items per batch
+          windowSize={pagerMode ? 3 : 8}                          // Keep 8 items in memory (3 pages in pager mode)
+        />
+      </View>
+
+      {/* Friendly overlay while playback winds down for a schedule lock */}
+      {lockNotice && (
+        <View style={styles.lockNoticeOverlay}>
+          <Ionicons name="moon" size={48} color="#fff" />
+          <Text style={styles.lockNoticeText}>{lockNotice}</Text>
+        </View>
+      )}
+
+      {/* Grown-up check before going back to the profile picker */}
+      <ParentGate {...gateProps} instruction="Hold the button to switch profiles." />
+      <ParentGate {...approvalGate.gateProps} instruction="Only a grown-up can approve videos." />
     </SafeAreaView>
   );
 };
@@ -869,6 +1234,32 @@ const styles = StyleSheet.create({
     color: '#333'                                               // Dark gray color
   },
   
+  // Active profile chip style
+  profileChip: {
+    flexDirection: 'row',                                       // Avatar, name and icon in a row
+    alignItems: 'center',                                       // Center items vertically
+    backgroundColor: '#FAE1EB',                                 // Light pink background
+    borderRadius: 16,                                           // Pill shape
+    paddingVertical: 4,                                         // Vertical padding
+    paddingHorizontal: 10,                                      // Horizontal padding
+    maxWidth: 180,                                              // Keep long names from pushing the title
+  },
+
+  // Profile avatar emoji style
+  profileAvatar: {
+    fontSize: 18,                                               // Emoji size
+    marginRight: 6,                                             // Space before name
+  },
+
+  // Profile name style
+  profileName: {
+    fontSize: 14,                                               // Font size
+    fontWeight: '600',                                          // Semi-bold
+    color: '#333',                                              // Dark gray color
+    marginRight: 4,                                             // Space before icon
+    flexShrink: 1,                                              // Allow truncation
+  },
+
   // Loading container style
   loadingContainer: { 
     flex: 1,                                                    // Take full screen
@@ -902,8 +1293,28 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,                                      // Horizontal padding
   },
   
+  // Offline banner style
+  offlineBanner: {
+    flexDirection: 'row',                                       // Icon and text in a row
+    alignItems: 'center',                                       // Center items vertically
+    justifyContent: 'center',                                   // Center horizontally
+    backgroundColor: '#555',                                    // Dark gray background
+    paddingVertical: 6,                                         // Vertical padding
+  },
+
+  // Offline banner text style
+  offlineBannerText: {
+    color: '#fff',                                              // White text
+    fontSize: 13,                                               // Font size
+    fontWeight: '500',                                          // Medium weight
+    marginLeft: 6,                                              // Space after icon
+  },
+
   // Info container style
   infoContainer: { 
+    flexDirection: 'row',                                       // Text and browse toggle in a row
+    justifyContent: 'space-between',                            // Toggle on the right
+    alignItems: 'center',                                       // Center items vertically
     padding: 12,                                                // Padding around content
     backgroundColor: '#f0f0f0',                                 // Light gray background
     borderBottomWidth: 1,                                       // Bottom border width
@@ -912,17 +1323,80 @@ const styles = StyleSheet.create({
   
   // Info text style
   infoText: { 
+    flexShrink: 1,                                              // Wrap instead of pushing the toggle off screen
     fontSize: 14,                                               // Font size
     color: '#555',                                              // Medium gray color
     fontWeight: '500'                                           // Medium weight
   },
   
+  // Browse toggle button style
+  browseToggle: {
+    flexDirection: 'row',                                       // Icon and text in a row
+    alignItems: 'center',                                       // Center items vertically
+    marginLeft: 8,                                              // Space after the info text
+  },
+
+  // Browse toggle text style
+  browseToggleText: {
+    fontSize: 14,                                               // Font size
+    color: '#007AFF',                                           // Blue text
+    fontWeight: '600',                                          // Semi-bold
+    marginLeft: 4,                                              // Space after icon
+  },
+
+  // Locked tile thumbnail style
+  lockedThumbnail: {
+    opacity: 0.4,                                               // Dimmed
+  },
+
+  // Locked tile overlay style
+  lockedOverlay: {
+    ...StyleSheet.absoluteFillObject,                           // Cover the thumbnail
+    justifyContent: 'center',                                   // Center vertically
+    alignItems: 'center',                                       // Center horizontally
+  },
+
+  // "Ask parent" button style
+  askButton: {
+    flexDirection: 'row',                                       // Icon and text in a row
+    alignItems: 'center',                                       // Center items vertically
+    backgroundColor: '#FF9500',                                 // Orange background
+    paddingVertical: 8,                                         // Vertical padding
+    paddingHorizontal: 16,                                      // Horizontal padding
+    borderRadius: 20,                                           // Pill shape
+    marginTop: 10,                                              // Space below the lock
+  },
+
+  // "Asked parent" badge style
+  askedBadge: {
+    flexDirection: 'row',                                       // Icon and text in a row
+    alignItems: 'center',                                       // Center items vertically
+    backgroundColor: 'rgba(0,0,0,0.6)',                         // Semi-transparent black
+    paddingVertical: 8,                                         // Vertical padding
+    paddingHorizontal: 16,                                      // Horizontal padding
+    borderRadius: 20,                                           // Pill shape
+    marginTop: 10,                                              // Space below the lock
+  },
+
+  // "Ask parent" button text style
+  askButtonText: {
+    color: '#fff',                                              // White text
+    fontSize: 14,                                               // Font size
+    fontWeight: '600',                                          // Semi-bold
+    marginLeft: 6,                                              // Space after icon
+  },
+
   // Videos list style
   videosList: { 
     paddingBottom: 20,                                          // Bottom padding
     paddingHorizontal: 12,                                      // Horizontal padding
   },
   
+  // Spinner shown under the list while more videos load
+  loadMoreSpinner: {
+    marginVertical: 20,                                         // Space around the spinner
+  },
+  
   // Empty container style
   emptyContainer: { 
     flex: 1,                                                    // Take available space
@@ -952,6 +1426,120 @@ const styles = StyleSheet.create({
     elevation: 3                                                // Android shadow
   },
   
+  // "Continue watching" row style
+  continueContainer: {
+    paddingVertical: 10,                                        // Vertical padding
+    paddingLeft: 16,                                            // Line up with the list
+    backgroundColor: '#f8f8f8',                                 // Same as the screen background
+  },
+
+  // "Continue watching" heading style
+  continueTitle: {
+    fontSize: 16,                                               // Font size
+    fontWeight: '600',                                          // Semi-bold
+    color: '#333',                                              // Dark gray text
+    marginBottom: 8,                                            // Space below
+  },
+
+  // One "Continue watching" item style
+  continueItem: {
+    width: 128,                                                 // Fixed width
+    marginRight: 12,                                            // Space between items
+  },
+
+  // "Continue watching" thumbnail style
+  continueThumbnail: {
+    width: 128,                                                 // Fixed width
+    height: 72,                                                 // 16:9 height
+    borderRadius: 8,                                            // Rounded corners
+    backgroundColor: '#1c1c1e',                                 // Dark background
+  },
+
+  // Progress bar track style
+  continueProgressTrack: {
+    height: 3,                                                  // Thin bar
+    backgroundColor: '#ddd',                                    // Light gray track
+    borderRadius: 2,                                            // Rounded ends
+    marginTop: 4,                                               // Space above
+    overflow: 'hidden',                                         // Clip the fill
+  },
+
+  // Progress bar fill style
+  continueProgressFill: {
+    height: '100%',                                             // Full track height
+    backgroundColor: '#FF3B30',                                 // Red fill
+  },
+
+  // "Continue watching" item title style
+  continueItemTitle: {
+    fontSize: 13,                                               // Font size
+    color: '#333',                                              // Dark gray text
+    marginTop: 4,                                               // Space above
+  },
+
+  // Area below the header that holds the list (measured for pager pages)
+  listArea: {
+    flex: 1,                                                    // Fill the remaining space
+  },
+
+  // Full-screen pager page style (height is set to the measured list area)
+  pagerPage: {
+    width: '100%',                                              // Full width
+    backgroundColor: '#000',                                    // Black background
+  },
+
+  // Pager tap area style
+  pagerTouchArea: {
+    flex: 1,                                                    // Cover the whole page
+    justifyContent: 'center',                                   // Center content vertically
+  },
+
+  // Pager thumbnail style
+  pagerThumbnail: {
+    ...StyleSheet.absoluteFillObject,                           // Cover the whole page
+    width: '100%',                                              // Full width
+    height: '100%',                                             // Full height
+  },
+
+  // Pager video player style
+  pagerVideo: {
+    ...StyleSheet.absoluteFillObject,                           // Cover the whole page
+  },
+
+  // Pager title and duration block style
+  pagerInfo: {
+    position: 'absolute',                                       // Position absolutely
+    left: 16,                                                   // Distance from left
+    right: 72,                                                  // Leave room for the checkbox
+    bottom: 24,                                                 // Distance from bottom
+  },
+
+  // Pager title text style
+  pagerTitle: {
+    color: '#fff',                                              // White text
+    fontSize: 17,                                               // Font size
+    fontWeight: '600',                                          // Semi-bold
+    textShadowColor: 'rgba(0,0,0,0.6)',                         // Shadow for readability
+    textShadowRadius: 4,                                        // Shadow blur
+  },
+
+  // Pager duration text style
+  pagerDuration: {
+    color: '#ddd',                                              // Light gray text
+    fontSize: 13,                                               // Font size
+    marginTop: 4,                                               // Space above
+  },
+
+  // Pager checkbox button style
+  pagerSelectButton: {
+    position: 'absolute',                                       // Position absolutely
+    right: 16,                                                  // Distance from right
+    bottom: 24,                                                 // Distance from bottom
+    padding: 6,                                                 // Larger touch area
+    backgroundColor: 'rgba(0,0,0,0.3)',                         // Semi-transparent background
+    borderRadius: 8,                                            // Rounded corners
+  },
+
   // Video player container style
   videoPlayerContainer: { 
     position: 'relative',                                       // Allow absolute positioning of children
@@ -1069,6 +1657,24 @@ const styles = StyleSheet.create({
     marginLeft: 5                                               // Left margin
   },
   
+  // Schedule lock notice overlay style
+  lockNoticeOverlay: {
+    ...StyleSheet.absoluteFillObject,                           // Cover the whole feed
+    backgroundColor: 'rgba(98,0,238,0.85)',                     // Purple, semi-transparent
+    justifyContent: 'center',                                   // Center vertically
+    alignItems: 'center',                                       // Center horizontally
+    padding: 30,                                                // Padding around content
+  },
+
+  // Schedule lock notice text style
+  lockNoticeText: {
+    color: '#fff',                                              // White text
+    fontSize: 20,                                               // Font size
+    fontWeight: 'bold',                                         // Bold text
+    textAlign: 'center',                                        // Center text
+    marginTop: 15,                                              // Space below icon
+  },
+
   // Max retries text style
   maxRetriesText: { 
     color: '#bbb',                                              // Light gray color
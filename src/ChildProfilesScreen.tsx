@@ -0,0 +1,273 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    Alert, Modal, SafeAreaView, ScrollView, StyleSheet, Switch,
+    Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+// Profile types, age bands and avatar choices
+import { AGE_BANDS, AgeBand, ChildProfile, PROFILE_AVATARS } from './profiles';
+
+// Parent screen for adding, editing and removing child profiles
+const ChildProfilesScreen: React.FC = () => {
+    // Destructure profile values and functions from context
+    const {
+        profiles, profileSettings, activeProfile,
+        addProfile, updateProfile, removeProfile, toggleRestrictedMode,
+    } = useSettings();
+
+    const [editorVisible, setEditorVisible] = useState<boolean>(false); // Controls the add/edit modal
+    const [editingId, setEditingId] = useState<string | null>(null); // Profile being edited (null when adding)
+    const [name, setName] = useState<string>(''); // Name field in the editor
+    const [avatar, setAvatar] = useState<string>(PROFILE_AVATARS[0]); // Avatar picked in the editor
+    const [ageBand, setAgeBand] = useState<AgeBand>('5to7'); // Age band picked in the editor
+
+    // Opens the editor, pre-filled when editing an existing profile
+    const openEditor = (profile?: ChildProfile) => {
+        setEditingId(profile?.id ?? null);
+        setName(profile?.name ?? '');
+        setAvatar(profile?.avatar ?? PROFILE_AVATARS[profiles.length % PROFILE_AVATARS.length]);
+        setAgeBand(profile?.ageBand ?? '5to7');
+        setEditorVisible(true);
+    };
+
+    // Saves the editor contents as a new or updated profile
+    const handleSave = async (): Promise<void> => {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            return Alert.alert('Missing Name', 'Please enter a name for this profile.');
+        }
+
+        try {
+            if (editingId) {
+                await updateProfile(editingId, { name: trimmedName, avatar, ageBand });
+            } else {
+                await addProfile({ name: trimmedName, avatar, ageBand });
+            }
+            setEditorVisible(false);
+        } catch (error) {
+            Alert.alert('Error', 'Could not save the profile. Please try again.');
+        }
+    };
+
+    // Asks for confirmation, then deletes the profile and its approved list
+    const handleRemove = (profile: ChildProfile) => {
+        if (profiles.length === 1) {
+            return Alert.alert('Cannot Delete', 'At least one profile is needed.');
+        }
+        Alert.alert(
+            'Delete Profile?',
+            `This removes ${profile.name}'s profile and approved videos.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => removeProfile(profile.id) },
+            ]
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Child Profiles</Text>
+
+                    {/* One row per profile with its restricted mode switch */}
+                    {profiles.map(profile => (
+                        <View key={profile.id} style={styles.profileRow}>
+                            <Text style={styles.avatar}>{profile.avatar}</Text>
+                            <View style={styles.profileInfo}>
+                                <Text style={styles.profileName}>
+                                    {profile.name}{activeProfile?.id === profile.id ? ' (watching now)' : ''}
+                                </Text>
+                                <Text style={styles.profileDetail}>
+                                    {AGE_BANDS.find(b => b.value === profile.ageBand)?.label} · {profileSettings[profile.id]?.selectedVideos.length ?? 0} approved
+                                </Text>
+                                <View style={styles.restrictedRow}>
+                                    <Text style={styles.profileDetail}>Restricted Mode</Text>
+                                    <Switch
+                                        value={profileSettings[profile.id]?.restrictedMode ?? false}
+                                        onValueChange={() => toggleRestrictedMode(profile.id)}
+                                    />
+                                </View>
+                            </View>
+                            <TouchableOpacity onPress={() => openEditor(profile)} style={styles.iconButton}>
+                                <Ionicons name="create-outline" size={22} color="#007AFF" />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => handleRemove(profile)} style={styles.iconButton}>
+                                <Ionicons name="trash-outline" size={22} color="#DC3545" />
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+
+                    {/* Add a new profile */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => openEditor()}>
+                        <Text style={styles.buttonText}>Add Profile</Text>
+                        <Ionicons name="add-circle-outline" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+
+            {/* --- Modal for adding or editing a profile --- */}
+            <Modal
+                visible={editorVisible}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={() => setEditorVisible(false)}
+            >
+                <View style={styles.modalContainer}>
+                    <View style={styles.modalContent}>
+                        <Text style={styles.modalTitle}>{editingId ? 'Edit Profile' : 'New Profile'}</Text>
+
+                        {/* Name input */}
+                        <TextInput
+                            style={styles.input}
+                            placeholder="Child's name"
+                            value={name}
+                            onChangeText={setName}
+                            maxLength={20}
+                        />
+
+                        {/* Avatar choices */}
+                        <View style={styles.choiceRow}>
+                            {PROFILE_AVATARS.map(option => (
+                                <TouchableOpacity
+                                    key={option}
+                                    style={[styles.avatarChoice, avatar === option && styles.choiceSelected]}
+                                    onPress={() => setAvatar(option)}
+                                >
+                                    <Text style={styles.avatarChoiceText}>{option}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        {/* Age band choices */}
+                        <View style={styles.choiceRow}>
+                            {AGE_BANDS.map(band => (
+                                <TouchableOpacity
+                                    key={band.value}
+                                    style={[styles.ageChoice, ageBand === band.value && styles.choiceSelected]}
+                                    onPress={() => setAgeBand(band.value)}
+                                >
+                                    <Text style={styles.ageChoiceText}>{band.label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        {/* Save and cancel buttons */}
+                        <TouchableOpacity style={styles.modalButton} onPress={handleSave}>
+                            <Text style={styles.modalButtonText}>Save</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.modalButton, styles.cancelButton]}
+                            onPress={() => setEditorVisible(false)}
+                        >
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 20,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 15, marginTop: 5, color: '#333' },
+
+    profileRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+
+    avatar: { fontSize: 34, marginRight: 12 },
+    profileInfo: { flex: 1 },
+    profileName: { fontSize: 16, fontWeight: '500', marginBottom: 2 },
+    profileDetail: { fontSize: 14, color: '#666' },
+    restrictedRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 4 },
+    iconButton: { padding: 8 },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+
+    buttonText: { fontSize: 16, color: '#007AFF' },
+
+    modalContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+
+    modalContent: {
+        width: '85%',
+        backgroundColor: '#fff',
+        borderRadius: 10,
+        padding: 20,
+        alignItems: 'center',
+    },
+
+    modalTitle: { fontSize: 20, fontWeight: 'bold', marginBottom: 15 },
+
+    input: {
+        width: '100%',
+        height: 48,
+        borderWidth: 1,
+        borderColor: '#ddd',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        marginBottom: 15,
+    },
+
+    choiceRow: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', marginBottom: 15 },
+    avatarChoice: { padding: 6, margin: 3, borderRadius: 8, borderWidth: 2, borderColor: 'transparent' },
+    avatarChoiceText: { fontSize: 28 },
+    ageChoice: {
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        margin: 3,
+        borderRadius: 15,
+        borderWidth: 2,
+        borderColor: '#eee',
+    },
+    ageChoiceText: { fontSize: 14, color: '#333' },
+    choiceSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+
+    modalButton: {
+        width: '100%',
+        paddingVertical: 12,
+        marginVertical: 5,
+        borderRadius: 5,
+        backgroundColor: '#f8f9fa',
+        alignItems: 'center',
+    },
+
+    modalButtonText: { fontSize: 16, color: '#007AFF', fontWeight: '500' },
+    cancelButton: { backgroundColor: '#f0f0f0' },
+    cancelButtonText: { fontSize: 16, color: '#555' },
+});
+
+// Exporting screen as default
+export default ChildProfilesScreen;
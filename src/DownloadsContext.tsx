@@ -0,0 +1,168 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist the list of downloaded videos
+import * as FileSystem from 'expo-file-system/legacy'; // Used to download and store video files on the device
+import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+// Video type from the API client
+import { VideoData } from './api/videos';
+
+// Folder inside the app's document directory where downloads are kept
+const DOWNLOADS_DIR = `${FileSystem.documentDirectory}videos/`;
+
+// One downloaded video, saved under 'offlineDownloads'
+export interface DownloadedVideo {
+    video: VideoData;          // Catalogue data at download time (url still points at the server)
+    fileUri: string;           // Local video file
+    thumbnailUri: string | null; // Local thumbnail, if the video had one
+    sizeBytes: number;         // Bytes used on the device (video + thumbnail)
+    downloadedAt: string;      // ISO timestamp
+}
+
+// This interface defines the types of values and functions shared via context
+interface DownloadsContextType {
+    downloads: { [videoId: string]: DownloadedVideo }; // Finished downloads by video ID
+    progress: { [videoId: string]: number }; // Downloads in progress, 0..1
+    totalBytes: number; // Storage used by all downloads
+    downloadVideo: (video: VideoData) => Promise<void>; // Downloads a video (and its thumbnail) to the device
+    deleteDownload: (videoId: string) => Promise<void>; // Removes one downloaded video
+    deleteAllDownloads: () => Promise<void>; // Removes every downloaded video
+    getOfflineVideo: (videoId: string) => VideoData | null; // Catalogue entry pointing at the local files, if downloaded
+}
+
+// Create the context with an initial undefined value (used with custom hook below)
+const DownloadsContext = createContext<DownloadsContextType | undefined>(undefined);
+
+// Returns the size of a local file in bytes (0 if it does not exist)
+const fileSize = async (uri: string): Promise<number> => {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists && !info.isDirectory ? info.size ?? 0 : 0;
+};
+
+// The provider wraps the app and shares the downloaded videos
+export const DownloadsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [downloads, setDownloads] = useState<{ [videoId: string]: DownloadedVideo }>({}); // Finished downloads
+    const [progress, setProgress] = useState<{ [videoId: string]: number }>({}); // Active downloads
+    const downloadsRef = useRef(downloads); // Latest downloads for use inside async callbacks
+
+    // Saves the download list to AsyncStorage and updates state
+    const persistDownloads = async (next: { [videoId: string]: DownloadedVideo }): Promise<void> => {
+        downloadsRef.current = next;
+        setDownloads(next);
+        await AsyncStorage.setItem('offlineDownloads', JSON.stringify(next));
+    };
+
+    // This effect runs once to load the download list, dropping entries whose file has gone missing
+    useEffect(() => {
+        const loadDownloads = async () => {
+            try {
+                const stored = await AsyncStorage.getItem('offlineDownloads');
+                const parsed: { [videoId: string]: DownloadedVideo } = stored ? JSON.parse(stored) : {};
+                const valid: { [videoId: string]: DownloadedVideo } = {};
+                for (const [videoId, entry] of Object.entries(parsed)) {
+                    if ((await FileSystem.getInfoAsync(entry.fileUri)).exists) valid[videoId] = entry;
+                }
+                await persistDownloads(valid);
+            } catch (e) {
+                console.error("Failed to load downloads", e);
+            }
+        };
+
+        loadDownloads();
+    }, []);
+
+    // Downloads a video file and its thumbnail, reporting progress as it goes
+    const downloadVideo = async (video: VideoData): Promise<void> => {
+        if (downloadsRef.current[video.id] || progress[video.id] !== undefined) return; // Already done or running
+
+        await FileSystem.makeDirectoryAsync(DOWNLOADS_DIR, { intermediates: true }).catch(() => {});
+        const safeId = encodeURIComponent(video.id);
+        const fileUri = `${DOWNLOADS_DIR}${safeId}.mp4`;
+        setProgress(prev => ({ ...prev, [video.id]: 0 }));
+
+        try {
+            const task = FileSystem.createDownloadResumable(video.url, fileUri, {}, data => {
+                if (data.totalBytesExpectedToWrite > 0) {
+                    setProgress(prev => ({ ...prev, [video.id]: data.totalBytesWritten / data.totalBytesExpectedToWrite }));
+                }
+            });
+            const result = await task.downloadAsync();
+            if (!result || result.status < 200 || result.status >= 300) {
+                throw new Error(`Download failed (${result?.status ?? 'no response'})`);
+            }
+
+            // Thumbnail is optional; a failure here does not fail the download
+            let thumbnailUri: string | null = null;
+            if (video.thumbnailUrl) {
+                const thumbTarget = `${DOWNLOADS_DIR}${safeId}.jpg`;
+                thumbnailUri = await FileSystem.downloadAsync(video.thumbnailUrl, thumbTarget)
+                    .then(r => r.uri)
+                    .catch(() => null);
+            }
+
+            const sizeBytes = (await fileSize(fileUri)) + (thumbnailUri ? await fileSize(thumbnailUri) : 0);
+            await persistDownloads({
+                ...downloadsRef.current,
+                [video.id]: { video, fileUri, thumbnailUri, sizeBytes, downloadedAt: new Date().toISOString() },
+            });
+        } catch (e) {
+            // Clean up a half-written file
+            await FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => {});
+            throw e;
+        } finally {
+            setProgress(prev => {
+                const next = { ...prev };
+                delete next[video.id];
+                return next;
+            });
+        }
+    };
+
+    // Deletes a downloaded video's files and forgets it
+    const deleteDownload = async (videoId: string): Promise<void> => {
+        const entry = downloadsRef.current[videoId];
+        if (!entry) return;
+        await FileSystem.deleteAsync(entry.fileUri, { idempotent: true });
+        if (entry.thumbnailUri) await FileSystem.deleteAsync(entry.thumbnailUri, { idempotent: true });
+        const next = { ...downloadsRef.current };
+        delete next[videoId];
+        await persistDownloads(next);
+    };
+
+    // Deletes the whole downloads folder
+    const deleteAllDownloads = async (): Promise<void> => {
+        await FileSystem.deleteAsync(DOWNLOADS_DIR, { idempotent: true });
+        await persistDownloads({});
+    };
+
+    // Returns the catalogue entry with its URLs swapped for the local copies
+    const getOfflineVideo = (videoId: string): VideoData | null => {
+        const entry = downloads[videoId];
+        if (!entry) return null;
+        return { ...entry.video, url: entry.fileUri, thumbnailUrl: entry.thumbnailUri };
+    };
+
+    // Combine all state and actions to provide them via context
+    const value: DownloadsContextType = {
+        downloads,
+        progress,
+        totalBytes: Object.values(downloads).reduce((sum, d) => sum + d.sizeBytes, 0),
+        downloadVideo,
+        deleteDownload,
+        deleteAllDownloads,
+        getOfflineVideo,
+    };
+
+    // Wrap children with provider to share context
+    return (
+        <DownloadsContext.Provider value={value}>
+            {children}
+        </DownloadsContext.Provider>
+    );
+};
+
+// Custom hook to access the DownloadsContext inside components
+export const useDownloads = (): DownloadsContextType => {
+    const context = useContext(DownloadsContext);
+    if (context === undefined) {
+        throw new Error('useDownloads must be used within a DownloadsProvider');
+    }
+    return context;
+};
@@ -0,0 +1,232 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// Used to show free space on the device
+import * as FileSystem from 'expo-file-system/legacy';
+// React core and hooks
+import React, { useEffect, useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    ActivityIndicator, Alert, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View
+} from 'react-native';
+// Approved videos are looked up by ID through the API client
+import { fetchVideosByIds, VideoData } from './api/videos';
+// Downloaded videos and download actions
+import { useDownloads } from './DownloadsContext';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+
+// Formats a byte count as "12.3 MB"
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Parent screen for downloading approved videos for offline use
+const DownloadsScreen: React.FC = () => {
+    const { profiles, activeProfile, profileSettings } = useSettings();
+    const { downloads, progress, totalBytes, downloadVideo, deleteDownload, deleteAllDownloads } = useDownloads();
+
+    // Profile whose approved list is shown (defaults to whoever is watching now)
+    const [profileId, setProfileId] = useState<string | undefined>(activeProfile?.id ?? profiles[0]?.id);
+    const approvedIds = (profileId && profileSettings[profileId]?.selectedVideos) || [];
+
+    const [videos, setVideos] = useState<VideoData[]>([]); // Catalogue data for the approved videos
+    const [isLoading, setIsLoading] = useState<boolean>(false); // True while approved videos are fetched
+    const [freeBytes, setFreeBytes] = useState<number | null>(null); // Free space left on the device
+
+    // Look up the approved videos (already downloaded ones work without the network)
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                setVideos(await fetchVideosByIds(approvedIds));
+            } catch (e) {
+                // Offline: only the downloaded copies can be listed
+                setVideos(approvedIds.filter(id => downloads[id]).map(id => downloads[id].video));
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        load();
+    }, [profileId, approvedIds.join(',')]);
+
+    // Refresh free space whenever the downloads change
+    useEffect(() => {
+        FileSystem.getFreeDiskStorageAsync().then(setFreeBytes).catch(() => setFreeBytes(null));
+    }, [totalBytes]);
+
+    // Starts a download and reports failures
+    const handleDownload = (video: VideoData) => {
+        downloadVideo(video).catch((e: Error) => Alert.alert('Download Failed', e.message));
+    };
+
+    // Downloads every approved video that is not on the device yet
+    const handleDownloadAll = () => {
+        videos.filter(v => !downloads[v.id]).forEach(handleDownload);
+    };
+
+    // Asks for confirmation, then deletes every download
+    const handleDeleteAll = () => {
+        Alert.alert('Delete All Downloads?', 'Downloaded videos will no longer play offline.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => deleteAllDownloads() },
+        ]);
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {/* Profile chooser, only needed with more than one child */}
+                {profiles.length > 1 && (
+                    <View style={styles.profileRow}>
+                        {profiles.map(profile => (
+                            <TouchableOpacity
+                                key={profile.id}
+                                style={[styles.chip, profile.id === profileId && styles.chipSelected]}
+                                onPress={() => setProfileId(profile.id)}
+                            >
+                                <Text style={styles.chipText}>{profile.avatar} {profile.name}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+
+                {/* --- Storage Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Storage</Text>
+                    <View style={styles.infoRow}>
+                        <Text style={styles.infoLabel}>Used by downloads</Text>
+                        <Text style={styles.infoValue}>{formatBytes(totalBytes)}</Text>
+                    </View>
+                    {freeBytes !== null && (
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>Free on device</Text>
+                            <Text style={styles.infoValue}>{formatBytes(freeBytes)}</Text>
+                        </View>
+                    )}
+                    <TouchableOpacity style={styles.buttonRow} onPress={handleDeleteAll} disabled={totalBytes === 0}>
+                        <Text style={styles.dangerButtonText}>Delete All Downloads</Text>
+                        <Ionicons name="trash-outline" size={22} color="#DC3545" />
+                    </TouchableOpacity>
+                </View>
+
+                {/* --- Approved Videos Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Approved Videos</Text>
+
+                    {isLoading && <ActivityIndicator style={styles.loader} />}
+                    {!isLoading && videos.length === 0 && (
+                        <Text style={styles.emptyText}>No approved videos yet.</Text>
+                    )}
+
+                    {videos.map(video => {
+                        const downloaded = downloads[video.id];
+                        const percent = progress[video.id];
+                        return (
+                            <View key={video.id} style={styles.videoRow}>
+                                <View style={styles.videoInfo}>
+                                    <Text style={styles.videoTitle} numberOfLines={1}>{video.filename || 'Untitled Video'}</Text>
+                                    <Text style={styles.videoDetail}>
+                                        {downloaded
+                                            ? `Downloaded · ${formatBytes(downloaded.sizeBytes)}`
+                                            : percent !== undefined
+                                                ? `Downloading… ${Math.round(percent * 100)}%`
+                                                : 'Not downloaded'}
+                                    </Text>
+                                </View>
+
+                                {/* Delete, progress spinner or download button */}
+                                {downloaded ? (
+                                    <TouchableOpacity onPress={() => deleteDownload(video.id)} style={styles.iconButton}>
+                                        <Ionicons name="trash-outline" size={22} color="#DC3545" />
+                                    </TouchableOpacity>
+                                ) : percent !== undefined ? (
+                                    <ActivityIndicator style={styles.iconButton} />
+                                ) : (
+                                    <TouchableOpacity onPress={() => handleDownload(video)} style={styles.iconButton}>
+                                        <Ionicons name="download-outline" size={22} color="#007AFF" />
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                        );
+                    })}
+
+                    {videos.some(v => !downloads[v.id]) && (
+                        <TouchableOpacity style={styles.buttonRow} onPress={handleDownloadAll}>
+                            <Text style={styles.buttonText}>Download All</Text>
+                            <Ionicons name="cloud-download-outline" size={24} color="#007AFF" />
+                        </TouchableOpacity>
+                    )}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    profileRow: { flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 15, paddingTop: 15 },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    chipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    chipText: { fontSize: 15, color: '#333' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 10,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 10, marginTop: 5, color: '#333' },
+
+    infoRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    infoLabel: { fontSize: 16, color: '#333' },
+    infoValue: { fontSize: 16, color: '#666' },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+    buttonText: { fontSize: 16, color: '#007AFF' },
+    dangerButtonText: { fontSize: 16, color: '#DC3545' },
+
+    videoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    videoInfo: { flex: 1 },
+    videoTitle: { fontSize: 16, fontWeight: '500', marginBottom: 2 },
+    videoDetail: { fontSize: 14, color: '#666' },
+    iconButton: { padding: 8 },
+
+    loader: { marginVertical: 10 },
+    emptyText: { fontSize: 15, color: '#999', paddingVertical: 10 },
+});
+
+// Exporting screen as default
+export default DownloadsScreen;
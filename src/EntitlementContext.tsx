@@ -0,0 +1,462 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist premium status per user
+import { auth } from '@/firebaseConfig'; // Premium belongs to the signed-in Firebase user
+import { onAuthStateChanged } from 'firebase/auth';
+import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+// The backend's confirm endpoint is the source of truth for a purchase (and says when it refuses one)
+import { ApiError } from './api/client';
+import { confirmPayment, fetchPurchases, isPaymentRejected, RemotePurchase } from './api/payments';
+// Plan catalogue (what can be bought and how many videos each plan allows)
+import { DEFAULT_FREE_SELECTIONS, fetchPlans, formatPlanPrice, Plan, PlanCatalogue } from './api/plans';
+// Purchases are parent actions and go in the audit log
+import { recordAuditEvent } from './auditLog';
+// Subscriptions run out on the trusted clock, so turning the device clock back doesn't extend them
+import { trustedNow } from './schedule';
+
+// A premium purchase, saved per user under 'entitlement:<uid>'
+export interface PremiumEntitlement {
+    paymentIntentId: string;    // Stripe payment intent that paid for premium
+    purchasedAt: string;        // ISO timestamp of the purchase
+    verifiedAt: string | null;  // Last time the backend confirmed it (null = not confirmed yet)
+    planId?: string | null;     // Plan that was bought (missing for the original one-time unlock)
+    selectionLimit?: number | null; // Approved videos the plan allows (missing/null = unlimited)
+    expiresAt?: string | null;  // When a subscription runs out (missing/null = never)
+}
+
+// Outcome of a "Restore purchase" attempt
+export type RestoreResult = 'restored' | 'not-found' | 'revoked' | 'expired';
+
+// Where a purchase stands with our backend ('confirm-failed' = backend unreachable, retried;
+// 'rejected' = backend refused the payment, never retried and never gives premium)
+export type PurchaseStatus = 'pending' | 'confirmed' | 'confirm-failed' | 'rejected';
+
+// One purchase in the local ledger, saved per user under 'purchases:<uid>' (newest first)
+export interface PurchaseRecord {
+    paymentIntentId: string;      // Stripe payment intent ID
+    purchaseType: string;         // What was bought
+    plan: Plan | null;            // Plan at the time of purchase (null before plans existed)
+    promoCode: string | null;     // Promo code used, if any
+    amount: number | null;        // Amount in cents, if the backend sent it
+    receiptEmail: string;         // Where Stripe sent the receipt
+    createdAt: string;            // ISO timestamp of the payment
+    confirmedAt: string | null;   // When our backend confirmed it
+    status: PurchaseStatus;
+    confirmAttempts: number;      // Confirmation requests made so far
+    lastError: string | null;     // Why the last confirmation failed
+    expiresAt: string | null;     // When a subscription runs out (null for one-time plans)
+}
+
+// A payment the Stripe payment sheet reported as successful
+export interface CompletedPayment {
+    paymentIntentId: string;
+    purchaseType: string;
+    plan: Plan;
+    promoCode: string | null;
+    amount: number | null;
+    receiptEmail: string;
+}
+
+// How often unconfirmed purchases are retried while the app is open
+const RETRY_INTERVAL_MS = 5 * 60 * 1000;
+
+// Background retries stop after this many failed attempts (parents can still retry from the Purchases screen)
+const MAX_BACKGROUND_ATTEMPTS = 20;
+
+// This interface defines the types of values and functions shared via context
+interface EntitlementContextType {
+    isPremium: boolean; // True when the signed-in user has premium (and any subscription hasn't run out)
+    isChecking: boolean; // True while the saved purchase is being re-checked with the backend
+    entitlement: PremiumEntitlement | null; // Details of the purchase behind premium
+    restorePurchase: () => Promise<RestoreResult>; // Confirms the user's saved and ledger purchases with the backend
+    purchases: PurchaseRecord[]; // Purchase ledger for the signed-in user, newest first
+    completePurchase: (payment: CompletedPayment) => Promise<PurchaseStatus>; // Logs a paid purchase, confirms it and grants premium
+    retryConfirmation: (paymentIntentId: string) => Promise<PurchaseStatus>; // Tries to confirm one purchase again
+    plans: Plan[]; // Plans that can be bought
+    freeSelectionLimit: number; // Approved videos allowed without a plan
+    selectionLimit: number | null; // Approved videos allowed right now (null = unlimited)
+    isLoadingPlans: boolean; // True while the plan catalogue is fetched
+    refreshPlans: () => Promise<void>; // Fetches the plan catalogue again
+}
+
+// Create the context with an initial undefined value (used with custom hook below)
+const EntitlementContext = createContext<EntitlementContextType | undefined>(undefined);
+
+// Storage keys for one user's entitlement and purchase ledger
+const entitlementKey = (userId: string): string => `entitlement:${userId}`;
+const purchasesKey = (userId: string): string => `purchases:${userId}`;
+
+// Storage key for the last plan catalogue (shared by all users, used until the backend answers)
+const PLAN_CATALOGUE_KEY = 'planCatalogue';
+
+// End of a subscription's first period, or null for one-time plans
+const subscriptionEnd = (plan: Plan | null, from: Date): string | null => {
+    if (!plan || plan.billing === 'one-time') return null;
+    const end = new Date(from);
+    if (plan.billing === 'monthly') end.setMonth(end.getMonth() + 1);
+    else end.setFullYear(end.getFullYear() + 1);
+    return end.toISOString();
+};
+
+// Plan name and price for audit log entries ("Family Monthly ($4.99) with code SPRING")
+const describePurchase = (record: PurchaseRecord): string => record.plan
+    ? `${record.plan.name} (${formatPlanPrice(record.plan)})${record.promoCode ? ` with code ${record.promoCode}` : ''}`
+    : record.purchaseType;
+
+// The premium record that a purchase gives
+const entitlementFromPurchase = (record: PurchaseRecord, verifiedAt: string | null): PremiumEntitlement => ({
+    paymentIntentId: record.paymentIntentId,
+    purchasedAt: record.createdAt,
+    verifiedAt,
+    planId: record.plan?.id ?? null,
+    selectionLimit: record.plan?.selectionLimit ?? null,
+    expiresAt: record.expiresAt,
+});
+
+// True while a premium record is usable
+const isEntitlementActive = (record: PremiumEntitlement | null): boolean =>
+    record !== null && (!record.expiresAt || Date.parse(record.expiresAt) > trustedNow());
+
+// Sends one confirmation request and returns the updated ledger entry
+const attemptConfirmation = async (userId: string, record: PurchaseRecord): Promise<PurchaseRecord> => {
+    const attempted = { ...record, confirmAttempts: record.confirmAttempts + 1 };
+    try {
+        const { expiresAt } = await confirmPayment({ paymentIntentId: record.paymentIntentId, userId });
+        return {
+            ...attempted,
+            status: 'confirmed',
+            confirmedAt: new Date().toISOString(),
+            lastError: null,
+            expiresAt: expiresAt ?? record.expiresAt, // The backend knows about renewals
+        };
+    } catch (e: any) {
+        const status: PurchaseStatus = isPaymentRejected(e) ? 'rejected' : 'confirm-failed';
+        return { ...attempted, status, lastError: e?.message || 'Unknown error' };
+    }
+};
+
+// Asks the backend to confirm a purchase. Returns the refreshed record, or null if the backend revoked it.
+// Network problems and any other error status are thrown so the caller can keep the saved status.
+const verifyEntitlement = async (userId: string, record: PremiumEntitlement): Promise<PremiumEntitlement | null> => {
+    try {
+        const { expiresAt } = await confirmPayment({ paymentIntentId: record.paymentIntentId, userId });
+        return { ...record, verifiedAt: new Date().toISOString(), expiresAt: expiresAt ?? record.expiresAt };
+    } catch (e) {
+        if (isPaymentRejected(e)) return null;
+        throw e;
+    }
+};
+
+// The provider wraps the app and shares the plan catalogue and the signed-in user's premium status and purchase ledger
+export const EntitlementProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [userId, setUserId] = useState<string | null>(auth.currentUser?.uid ?? null); // Signed-in Firebase user
+    const [entitlement, setEntitlement] = useState<PremiumEntitlement | null>(null); // Saved purchase, if any
+    const [isChecking, setIsChecking] = useState<boolean>(false); // Backend re-check in progress
+    const [purchases, setPurchases] = useState<PurchaseRecord[]>([]); // Purchase ledger for this user
+    const purchasesRef = useRef<PurchaseRecord[]>([]); // Latest ledger for use inside timers
+    const isRetrying = useRef<boolean>(false); // True while a background retry pass runs
+    const [planCatalogue, setPlanCatalogue] = useState<PlanCatalogue>({ plans: [], freeSelectionLimit: DEFAULT_FREE_SELECTIONS });
+    const [isLoadingPlans, setIsLoadingPlans] = useState<boolean>(false); // Plan catalogue fetch in progress
+
+    // Follow sign-in and sign-out
+    useEffect(() => onAuthStateChanged(auth, user => setUserId(user?.uid ?? null)), []);
+
+    // Fetches the plan catalogue and keeps a copy for when the backend can't be reached
+    const refreshPlans = async (): Promise<void> => {
+        setIsLoadingPlans(true);
+        try {
+            const catalogue = await fetchPlans();
+            setPlanCatalogue(catalogue);
+            await AsyncStorage.setItem(PLAN_CATALOGUE_KEY, JSON.stringify(catalogue));
+        } catch (e: any) {
+            console.warn('[Plans] Could not fetch plans, keeping saved catalogue:', e?.message);
+        } finally {
+            setIsLoadingPlans(false);
+        }
+    };
+
+    // Show the saved plan catalogue straight away, then refresh it
+    useEffect(() => {
+        const loadPlans = async () => {
+            try {
+                const stored = await AsyncStorage.getItem(PLAN_CATALOGUE_KEY);
+                if (stored) setPlanCatalogue(JSON.parse(stored));
+            } catch (e) {
+                console.error('Failed to load saved plans', e);
+            }
+            await refreshPlans();
+        };
+        loadPlans();
+    }, []);
+
+    // Saves (or removes) a user's entitlement and updates state
+    const persistEntitlement = async (forUserId: string, next: PremiumEntitlement | null): Promise<void> => {
+        setEntitlement(next);
+        if (next) {
+            await AsyncStorage.setItem(entitlementKey(forUserId), JSON.stringify(next));
+        } else {
+            await AsyncStorage.removeItem(entitlementKey(forUserId));
+        }
+    };
+
+    // Saves the ledger to AsyncStorage and updates state
+    const persistPurchases = async (forUserId: string, next: PurchaseRecord[]): Promise<void> => {
+        purchasesRef.current = next;
+        setPurchases(next);
+        await AsyncStorage.setItem(purchasesKey(forUserId), JSON.stringify(next));
+    };
+
+    // Replaces one ledger entry (matched by payment intent ID), or adds it at the top
+    const savePurchase = async (forUserId: string, record: PurchaseRecord): Promise<void> => {
+        const exists = purchasesRef.current.some(p => p.paymentIntentId === record.paymentIntentId);
+        await persistPurchases(forUserId, exists
+            ? purchasesRef.current.map(p => (p.paymentIntentId === record.paymentIntentId ? record : p))
+            : [record, ...purchasesRef.current]);
+    };
+
+    // True when the purchase is the newest one the backend hasn't refused (the one premium should come from)
+    const isLatestPurchase = (paymentIntentId: string): boolean =>
+        purchasesRef.current.find(p => p.status !== 'rejected')?.paymentIntentId === paymentIntentId;
+
+    // Confirms one ledger entry with the backend. Confirming the latest purchase marks premium as verified
+    // (an older one retried in the background must not replace a newer plan); a refused purchase takes back
+    // the premium it gave, falling back to the newest confirmed purchase.
+    const confirmPurchase = async (forUserId: string, record: PurchaseRecord): Promise<PurchaseRecord> => {
+        const updated = await attemptConfirmation(forUserId, record);
+        await savePurchase(forUserId, updated);
+        if (updated.status === 'confirmed' && isLatestPurchase(updated.paymentIntentId)) {
+            await persistEntitlement(forUserId, entitlementFromPurchase(updated, updated.confirmedAt));
+        } else if (updated.status === 'rejected') {
+            recordAuditEvent({
+                action: 'purchase-rejected',
+                profileId: null,
+                profileName: null,
+                detail: `Payment for ${describePurchase(updated)} was not accepted`,
+            });
+            const stored = await AsyncStorage.getItem(entitlementKey(forUserId));
+            if (stored && JSON.parse(stored).paymentIntentId === updated.paymentIntentId) {
+                const fallback = purchasesRef.current.find(p => p.status === 'confirmed');
+                await persistEntitlement(forUserId, fallback ? entitlementFromPurchase(fallback, fallback.confirmedAt) : null);
+            }
+        }
+        return updated;
+    };
+
+    // Re-checks a saved purchase; a rejected one is removed, an unreachable backend keeps the saved status
+    const recheck = async (forUserId: string, record: PremiumEntitlement): Promise<PremiumEntitlement | null> => {
+        setIsChecking(true);
+        try {
+            const verified = await verifyEntitlement(forUserId, record);
+            await persistEntitlement(forUserId, verified);
+            return verified;
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    // On start and whenever the user changes: show the saved status straight away, then confirm it with the backend
+    useEffect(() => {
+        setEntitlement(null);
+        purchasesRef.current = [];
+        setPurchases([]);
+        if (!userId) return;
+
+        const loadEntitlement = async () => {
+            try {
+                const storedPurchases = await AsyncStorage.getItem(purchasesKey(userId));
+                purchasesRef.current = storedPurchases ? JSON.parse(storedPurchases) : [];
+                setPurchases(purchasesRef.current);
+
+                const stored = await AsyncStorage.getItem(entitlementKey(userId));
+                if (!stored) return;
+                const record: PremiumEntitlement = JSON.parse(stored);
+                setEntitlement(record);
+                await recheck(userId, record);
+            } catch (e: any) {
+                console.warn('[Entitlement] Could not re-check premium, keeping saved status:', e?.message);
+            }
+        };
+
+        loadEntitlement();
+    }, [userId]);
+
+    // Retries purchases that went through in Stripe but were never confirmed by our backend:
+    // shortly after start, whenever the app comes back to the foreground, and every few minutes
+    useEffect(() => {
+        if (!userId) return;
+
+        const retryUnconfirmed = async () => {
+            if (isRetrying.current) return;
+            isRetrying.current = true;
+            try {
+                const unconfirmed = purchasesRef.current.filter(
+                    p => (p.status === 'pending' || p.status === 'confirm-failed') && p.confirmAttempts < MAX_BACKGROUND_ATTEMPTS
+                );
+                for (const record of unconfirmed) await confirmPurchase(userId, record);
+            } catch (e: any) {
+                console.warn('[Purchases] Background confirmation failed:', e?.message);
+            } finally {
+                isRetrying.current = false;
+            }
+        };
+
+        const timeoutId = setTimeout(retryUnconfirmed, 5000); // Let the startup re-check go first
+        const intervalId = setInterval(retryUnconfirmed, RETRY_INTERVAL_MS);
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') retryUnconfirmed();
+        });
+
+        return () => {
+            clearTimeout(timeoutId);
+            clearInterval(intervalId);
+            subscription.remove();
+        };
+    }, [userId]);
+
+    // Logs a purchase the payment sheet reported as paid, confirms it with the backend and grants premium.
+    // Premium is granted even if the backend can't be reached (the purchase stays in the ledger and is retried),
+    // but not when the backend refuses the payment.
+    const completePurchase = async (payment: CompletedPayment): Promise<PurchaseStatus> => {
+        if (!userId) throw new Error('User not authenticated. Please log in first.');
+        const now = new Date();
+        const pending: PurchaseRecord = {
+            ...payment,
+            createdAt: now.toISOString(),
+            confirmedAt: null,
+            status: 'pending',
+            confirmAttempts: 0,
+            lastError: null,
+            expiresAt: subscriptionEnd(payment.plan, now),
+        };
+        await savePurchase(userId, pending);
+
+        const result = await confirmPurchase(userId, pending);
+        if (result.status === 'confirm-failed') await persistEntitlement(userId, entitlementFromPurchase(result, null));
+        // Logged once the outcome is known (a rejection is logged by confirmPurchase)
+        if (result.status !== 'rejected') {
+            recordAuditEvent({
+                action: 'purchase',
+                profileId: null,
+                profileName: null,
+                detail: `Bought ${describePurchase(result)}${result.status === 'confirmed' ? '' : ', waiting for confirmation'}`,
+            });
+        }
+        return result.status;
+    };
+
+    // Tries to confirm one purchase again (from the Purchases screen)
+    const retryConfirmation = async (paymentIntentId: string): Promise<PurchaseStatus> => {
+        const record = purchasesRef.current.find(p => p.paymentIntentId === paymentIntentId);
+        if (!userId || !record) throw new Error('Purchase not found.');
+        return (await confirmPurchase(userId, record)).status;
+    };
+
+    // Ledger entry for a purchase the backend listed (receipt details this device never saw stay empty)
+    const purchaseFromRemote = (remote: RemotePurchase): PurchaseRecord => ({
+        paymentIntentId: remote.paymentIntentId,
+        purchaseType: remote.purchaseType ?? 'unlimited_video_selection',
+        plan: planCatalogue.plans.find(p => p.id === remote.planId) ?? null,
+        promoCode: null,
+        amount: remote.amount,
+        receiptEmail: '',
+        createdAt: remote.createdAt,
+        confirmedAt: remote.createdAt,
+        status: 'confirmed',
+        confirmAttempts: 0,
+        lastError: null,
+        expiresAt: remote.expiresAt,
+    });
+
+    // Asks the backend for every confirmed purchase, adds them to the ledger and saves premium from the
+    // newest one still running. Returns null when the backend has no purchase list (older server).
+    const restoreFromBackend = async (forUserId: string): Promise<RestoreResult | null> => {
+        let remote: RemotePurchase[];
+        try {
+            remote = await fetchPurchases(forUserId);
+        } catch (e) {
+            if (e instanceof ApiError && e.status === 404) return null;
+            throw e; // Network problem: let the screen say so
+        }
+        if (remote.length === 0) return null;
+
+        // Listed purchases are confirmed; ledger entries this device already has keep their receipt details
+        const records = remote.map((r): PurchaseRecord => {
+            const local = purchasesRef.current.find(p => p.paymentIntentId === r.paymentIntentId);
+            return local
+                ? { ...local, status: 'confirmed', confirmedAt: local.confirmedAt ?? r.createdAt, expiresAt: r.expiresAt, lastError: null }
+                : purchaseFromRemote(r);
+        });
+        const others = purchasesRef.current.filter(p => !records.some(r => r.paymentIntentId === p.paymentIntentId));
+        await persistPurchases(forUserId, [...records, ...others].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)));
+
+        const verifiedAt = new Date().toISOString();
+        const active = records.map(r => entitlementFromPurchase(r, verifiedAt)).find(isEntitlementActive);
+        await persistEntitlement(forUserId, active ?? entitlementFromPurchase(records[0], verifiedAt));
+        return active ? 'restored' : 'expired';
+    };
+
+    // Restores premium: first from the backend's list of the user's purchases (works after a reinstall or on
+    // a new device), otherwise by confirming the saved premium record and every confirmed ledger purchase one by one.
+    const restorePurchase = async (): Promise<RestoreResult> => {
+        if (!userId) return 'not-found';
+        setIsChecking(true);
+        try {
+            const fromBackend = await restoreFromBackend(userId);
+            if (fromBackend) return fromBackend;
+
+            const stored = await AsyncStorage.getItem(entitlementKey(userId));
+            const candidates: PremiumEntitlement[] = stored ? [JSON.parse(stored)] : [];
+            purchasesRef.current
+                .filter(p => p.status === 'confirmed' && !candidates.some(c => c.paymentIntentId === p.paymentIntentId))
+                .forEach(p => candidates.push(entitlementFromPurchase(p, p.confirmedAt)));
+            if (candidates.length === 0) return 'not-found';
+
+            let expired: PremiumEntitlement | null = null; // Valid purchase whose subscription has run out
+            for (const candidate of candidates) {
+                const verified = await verifyEntitlement(userId, candidate);
+                if (!verified) continue; // Revoked, try the next one
+                if (isEntitlementActive(verified)) {
+                    await persistEntitlement(userId, verified);
+                    return 'restored';
+                }
+                expired = expired ?? verified;
+            }
+            await persistEntitlement(userId, expired);
+            return expired ? 'expired' : 'revoked';
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    // Combine all state and actions to provide them via context
+    const isPremium = isEntitlementActive(entitlement);
+    const value: EntitlementContextType = {
+        isPremium,
+        isChecking,
+        entitlement,
+        restorePurchase,
+        purchases,
+        completePurchase,
+        retryConfirmation,
+        plans: planCatalogue.plans,
+        freeSelectionLimit: planCatalogue.freeSelectionLimit,
+        selectionLimit: isPremium ? entitlement?.selectionLimit ?? null : planCatalogue.freeSelectionLimit,
+        isLoadingPlans,
+        refreshPlans,
+    };
+
+    // Wrap children with provider to share context
+    return (
+        <EntitlementContext.Provider value={value}>
+            {children}
+        </EntitlementContext.Provider>
+    );
+};
+
+// Custom hook to access the EntitlementContext inside components
+export const useEntitlement = (): EntitlementContextType => {
+    const context = useContext(EntitlementContext);
+    if (context === undefined) {
+        throw new Error('useEntitlement must be used within an EntitlementProvider');
+    }
+    return context;
+};
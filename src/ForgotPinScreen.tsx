@@ -0,0 +1,279 @@
+// Import your custom HeartAlert popup component (for success message)
+import HeartAlert from '@/src/components/HeartAlert';
+
+// Import the PIN / passcode choice shown above the new PIN fields
+import PasscodeKindPicker from '@/src/components/PasscodeKindPicker';
+
+// Import Firebase authentication object and the re-authentication helpers
+import { auth } from '@/firebaseConfig';
+import { EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
+
+// Import font loading function to load custom font
+import { useFonts } from 'expo-font';
+
+// Import navigation hook and the route params (where to go once the PIN is reset)
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+// Import React and state hook
+import React, { useState } from 'react';
+
+// Import UI components from React Native
+import {
+    ActivityIndicator, // Spinner while checking the password
+    Alert, // Show error alerts
+    ImageBackground, // Set screen background image
+    KeyboardAvoidingView, // Adjust layout for keyboard
+    Platform, SafeAreaView, // Respect screen safe areas
+    StyleSheet, Text, // Styling and text
+    TextInput, // Password and PIN input fields
+    TouchableOpacity, // Pressable buttons
+    View // Container
+} from 'react-native';
+
+// Import the route guard helper that picks the screen to continue to
+import { resolveNextRoute } from './routeGuard';
+// Import the custom app settings hook (where PIN is saved) and the passcode policy rules
+import {
+    MAX_PASSCODE_LENGTH, MAX_PIN_LENGTH, PasscodeKind, useSettings, validateNewPasscode
+} from './SettingsContext';
+
+// Firebase error codes that mean the password was wrong
+const WRONG_PASSWORD_CODES = ['auth/wrong-password', 'auth/invalid-credential', 'auth/invalid-login-credentials'];
+
+// Resets a forgotten parent PIN once the account password has been re-entered
+const ForgotPinScreen: React.FC = () => {
+    const router = useRouter(); // Used to continue after the reset
+    const { next } = useLocalSearchParams<{ next?: string }>(); // Guarded screen that sent the parent here
+    const { savePin, passcodePolicy } = useSettings(); // Function from SettingsContext to store the PIN
+    const email = auth.currentUser?.email ?? null; // Account whose password is checked
+
+    const [password, setPassword] = useState<string>(''); // Account password as typed
+    const [kind, setKind] = useState<PasscodeKind>(passcodePolicy.kind); // PIN or alphanumeric passcode
+    const isAlphanumeric = kind === 'alphanumeric';
+    const [pin, setPin] = useState<string>(''); // New PIN
+    const [confirmPin, setConfirmPin] = useState<string>(''); // New PIN again
+    const [isLoading, setIsLoading] = useState<boolean>(false); // Password check and save in progress
+    const [alertVisible, setAlertVisible] = useState(false); // Success popup
+
+    // Load custom font from assets
+    const [fontsLoaded] = useFonts({
+        'AppFont': require('@/assets/Lora-Regular.ttf'),
+    });
+
+    // Checks the password with Firebase, then saves the new PIN
+    const handleReset = async (): Promise<void> => {
+        const currentUser = auth.currentUser;
+        if (!currentUser || !email) {
+            return Alert.alert('Not Available', 'This account has no password to check. Please sign in with email and password.');
+        }
+
+        // Validate inputs the same way PIN setup does
+        if (!password || !pin || !confirmPin) {
+            return Alert.alert('Missing Input', 'Please enter your password, then enter and confirm a new PIN.');
+        }
+        const policyError = validateNewPasscode(pin, kind);
+        if (policyError) {
+            return Alert.alert(isAlphanumeric ? 'Passcode Not Allowed' : 'PIN Not Allowed', policyError);
+        }
+        if (pin !== confirmPin) {
+            return Alert.alert('PIN Mismatch', 'The PINs you entered do not match.');
+        }
+
+        setIsLoading(true);
+        try {
+            // Step 1: Prove the account owner is here by signing in again with the password
+            await reauthenticateWithCredential(currentUser, EmailAuthProvider.credential(email, password));
+        } catch (error: any) {
+            setIsLoading(false);
+            setPassword('');
+            if (WRONG_PASSWORD_CODES.includes(error.code)) {
+                return Alert.alert('Incorrect Password', 'That password is not right for this account.');
+            }
+            if (error.code === 'auth/too-many-requests') {
+                return Alert.alert('Too Many Attempts', 'Please wait a while before trying again.');
+            }
+            return Alert.alert('Authentication Error', error.message);
+        }
+
+        // Step 2: Replace the PIN (this also clears any wrong-PIN lockout)
+        const success = await savePin(pin, kind);
+        setIsLoading(false);
+        if (success) {
+            setAlertVisible(true);
+        } else {
+            Alert.alert('Error', 'Could not set PIN. Please try again.');
+        }
+    };
+
+    // Wait for font to load before rendering
+    if (!fontsLoaded) {
+        return null;
+    }
+
+    return (
+        <>
+            {/* Same background as PIN setup */}
+            <ImageBackground
+                source={require('../assets/download.jpeg')}
+                style={styles.background}
+                resizeMode="cover"
+            >
+                <SafeAreaView style={styles.container}>
+                    <KeyboardAvoidingView
+                        behavior={Platform.OS === "ios" ? "padding" : "height"}
+                        style={styles.keyboardAvoidingView}
+                    >
+                        <View style={styles.formContainer}>
+                            <Text style={styles.title}>Forgot Parent PIN</Text>
+                            <Text style={styles.instruction}>
+                                Enter the password for {email ?? 'your account'} to choose a new PIN.
+                            </Text>
+
+                            {/* --- Account Password --- */}
+                            <View style={styles.inputContainer}>
+                                <TextInput
+                                    style={styles.input}
+                                    placeholder="Account Password"
+                                    value={password}
+                                    onChangeText={setPassword}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    secureTextEntry={true}
+                                />
+                            </View>
+
+                            {/* --- New PIN (or passcode), twice --- */}
+                            <PasscodeKindPicker
+                                value={kind}
+                                onChange={newKind => {
+                                    setKind(newKind);
+                                    setPin('');
+                                    setConfirmPin('');
+                                }}
+                            />
+                            <View style={styles.inputContainer}>
+                                <TextInput
+                                    style={styles.input}
+                                    placeholder={isAlphanumeric ? 'New Passcode' : 'New PIN'}
+                                    value={pin}
+                                    onChangeText={setPin}
+                                    keyboardType={isAlphanumeric ? 'default' : 'numeric'}
+                                    autoCapitalize="none"
+                                    maxLength={isAlphanumeric ? MAX_PASSCODE_LENGTH : MAX_PIN_LENGTH}
+                                    secureTextEntry={true}
+                                />
+                            </View>
+                            <View style={styles.inputContainer}>
+                                <TextInput
+                                    style={styles.input}
+                                    placeholder={isAlphanumeric ? 'Confirm New Passcode' : 'Confirm New PIN'}
+                                    value={confirmPin}
+                                    onChangeText={setConfirmPin}
+                                    keyboardType={isAlphanumeric ? 'default' : 'numeric'}
+                                    autoCapitalize="none"
+                                    maxLength={isAlphanumeric ? MAX_PASSCODE_LENGTH : MAX_PIN_LENGTH}
+                                    secureTextEntry={true}
+                                />
+                            </View>
+
+                            {/* --- Button or Loading Spinner --- */}
+                            {isLoading ? (
+                                <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+                            ) : (
+                                <TouchableOpacity style={styles.button} onPress={handleReset}>
+                                    <Text style={styles.buttonText}>Reset PIN</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    </KeyboardAvoidingView>
+                </SafeAreaView>
+            </ImageBackground>
+
+            {/* Heart Alert Component for success message */}
+            <HeartAlert
+                visible={alertVisible}
+                title="Success"
+                message="Your parent PIN has been reset."
+                onClose={() => {
+                    setAlertVisible(false); // Hide alert
+                    router.replace(resolveNextRoute(next)); // Continue to the guarded screen (Settings by default)
+                }}
+            />
+        </>
+    );
+};
+
+// -------- Styles (same look as PinSetupScreen) --------
+const styles = StyleSheet.create({
+    background: { flex: 1 },
+    container: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+    keyboardAvoidingView: { width: '100%', alignItems: 'center' },
+    formContainer: {
+        width: '85%',
+        backgroundColor: 'rgba(250, 225, 235, 0.92)', // Light pinkish background
+        padding: 25,
+        borderRadius: 20,
+        alignItems: 'center',
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.30,
+        shadowRadius: 4.65,
+        elevation: 8, // Android shadow
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 15,
+        textAlign: 'center',
+        color: '#333',
+        fontFamily: 'AppFont',
+    },
+    instruction: {
+        fontSize: 15,
+        marginBottom: 25,
+        textAlign: 'center',
+        color: '#666',
+        fontFamily: 'AppFont',
+    },
+    inputContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#eee',
+        borderRadius: 15,
+        width: '100%',
+        marginBottom: 15,
+    },
+    input: {
+        flex: 1,
+        height: 55,
+        paddingHorizontal: 20,
+        fontSize: 18,
+        fontFamily: 'AppFont',
+    },
+    button: {
+        backgroundColor: '#007AFF',
+        paddingVertical: 15,
+        paddingHorizontal: 50,
+        borderRadius: 30,
+        marginTop: 10,
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOpacity: 0.25,
+        shadowRadius: 4,
+        shadowOffset: { width: 0, height: 2 },
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fontFamily: 'AppFont',
+    },
+    loader: {
+        marginTop: 20,
+    },
+});
+
+// Export the component so it can be used in navigation
+export default ForgotPinScreen;
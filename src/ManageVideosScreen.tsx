@@ -0,0 +1,325 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// Import router for opening the plan picker
+import { useRouter } from 'expo-router';
+// React core and hooks
+import React, { useEffect, useMemo, useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    ActivityIndicator, Alert, FlatList, Image, ListRenderItem, SafeAreaView, StyleSheet, Text, TextInput,
+    TouchableOpacity, View
+} from 'react-native';
+// Import the typed backend API client
+import { fetchVideos, fetchVideosByIds, mergeVideos, VideoData } from './api/videos';
+// Saved copy of the catalogue, shown before the backend answers
+import { loadCachedCatalogue } from './catalogueCache';
+// Selection limit of the current plan
+import { useEntitlement } from './EntitlementContext';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+
+// Which videos the list shows
+type ListFilter = 'all' | 'approved';
+
+// Title used everywhere a video is named
+const videoTitle = (video: VideoData): string => video.filename || 'Untitled Video';
+
+// Parent screen for choosing each child's approved videos (a parent route, see ROUTE_GUARDS in app/_layout)
+const ManageVideosScreen: React.FC = () => {
+    const router = useRouter(); // Used to open the plan picker
+    const { profiles, activeProfile, profileSettings, setSelectedVideos } = useSettings();
+    const { selectionLimit } = useEntitlement();
+
+    // Profile whose list is edited (defaults to whoever is watching now)
+    const [profileId, setProfileId] = useState<string | undefined>(activeProfile?.id ?? profiles[0]?.id);
+    const [videos, setVideos] = useState<VideoData[]>([]); // Catalogue plus any approved videos not in it
+    const [nextCursor, setNextCursor] = useState<string | null>(null); // Cursor for the next catalogue page
+    const [isLoading, setIsLoading] = useState<boolean>(false); // True while videos are fetched
+    const [loadError, setLoadError] = useState<string | null>(null); // Why the backend couldn't be reached
+    const [search, setSearch] = useState<string>(''); // Title filter
+    const [filter, setFilter] = useState<ListFilter>('all'); // Everything or only approved videos
+    const [checkedIds, setCheckedIds] = useState<string[]>([]); // Videos ticked for a bulk action
+
+    const approvedIds = (profileId && profileSettings[profileId]?.selectedVideos) || [];
+
+    // Load the saved catalogue straight away, then the first page and every approved video from the backend
+    useEffect(() => {
+        const load = async () => {
+            const cached = await loadCachedCatalogue();
+            if (cached) {
+                setVideos(cached.videos);
+                setNextCursor(cached.nextCursor);
+            }
+
+            setIsLoading(true);
+            try {
+                const page = await fetchVideos();
+                const allApproved = Array.from(new Set(Object.values(profileSettings).flatMap(s => s.selectedVideos)));
+                const missing = allApproved.filter(id => !page.videos.some(v => v.id === id));
+                const approvedVideos = missing.length > 0 ? await fetchVideosByIds(missing) : [];
+                setVideos(prev => mergeVideos(mergeVideos(page.videos, prev), approvedVideos));
+                setNextCursor(page.nextCursor);
+                setLoadError(null);
+            } catch (e: any) {
+                setLoadError(e.message);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        load();
+    }, []);
+
+    // Start each profile with nothing ticked
+    useEffect(() => setCheckedIds([]), [profileId]);
+
+    // Loads the next catalogue page
+    const loadMore = async (): Promise<void> => {
+        if (!nextCursor || isLoading) return;
+        setIsLoading(true);
+        try {
+            const page = await fetchVideos({ cursor: nextCursor });
+            setVideos(prev => mergeVideos(prev, page.videos));
+            setNextCursor(page.nextCursor);
+        } catch (e: any) {
+            setLoadError(e.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Videos after the filter and search; approved IDs the backend no longer knows still show so they can be removed
+    const visibleVideos = useMemo(() => {
+        const unknown: VideoData[] = approvedIds
+            .filter(id => !videos.some(v => v.id === id))
+            .map(id => ({ id, url: '', thumbnailUrl: null, filename: 'Unavailable video' }));
+        const query = search.trim().toLowerCase();
+        return [...videos, ...unknown].filter(v =>
+            (filter === 'all' || approvedIds.includes(v.id)) &&
+            (!query || videoTitle(v).toLowerCase().includes(query))
+        );
+    }, [videos, approvedIds, filter, search]);
+
+    // Saves a new approved list, keeping within the plan's limit
+    const saveApproved = async (videoIds: string[]): Promise<boolean> => {
+        if (selectionLimit !== null && videoIds.length > selectionLimit && videoIds.length > approvedIds.length) {
+            Alert.alert('Plan Limit Reached', `Your plan allows ${selectionLimit} approved videos per child.`, [
+                { text: 'Not Now', style: 'cancel' },
+                { text: 'See Plans', onPress: () => router.push('/Plans') },
+            ]);
+            return false;
+        }
+        await setSelectedVideos(videoIds, profileId);
+        return true;
+    };
+
+    // Ticks or unticks a row for a bulk action
+    const toggleChecked = (videoId: string) => {
+        setCheckedIds(prev => (prev.includes(videoId) ? prev.filter(id => id !== videoId) : [...prev, videoId]));
+    };
+
+    // Approves or removes every ticked video
+    const handleBulk = async (approve: boolean): Promise<void> => {
+        const next = approve
+            ? [...approvedIds, ...checkedIds.filter(id => !approvedIds.includes(id))]
+            : approvedIds.filter(id => !checkedIds.includes(id));
+        if (await saveApproved(next)) setCheckedIds([]);
+    };
+
+    // Empties the chosen profile's approved list after confirming
+    const handleClearAll = () => {
+        const profileName = profiles.find(p => p.id === profileId)?.name ?? 'this child';
+        Alert.alert('Clear All?', `Remove all ${approvedIds.length} approved videos for ${profileName}?`, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Clear All', style: 'destructive', onPress: () => saveApproved([]) },
+        ]);
+    };
+
+    // One video row: tap to tick it for a bulk action, or use the button to approve/remove it alone
+    const renderVideo: ListRenderItem<VideoData> = ({ item }) => {
+        const isApproved = approvedIds.includes(item.id);
+        const isChecked = checkedIds.includes(item.id);
+        return (
+            <TouchableOpacity style={styles.videoRow} onPress={() => toggleChecked(item.id)}>
+                <Ionicons name={isChecked ? 'checkbox' : 'square-outline'} size={24} color="#007AFF" />
+                <Image
+                    source={item.thumbnailUrl ? { uri: item.thumbnailUrl } : require('../assets/video-placeholder.png')}
+                    style={styles.thumbnail}
+                    resizeMode="cover"
+                />
+                <View style={styles.videoInfo}>
+                    <Text style={styles.videoTitle} numberOfLines={2}>{videoTitle(item)}</Text>
+                    {isApproved && <Text style={styles.approvedText}>Approved</Text>}
+                </View>
+                <TouchableOpacity
+                    onPress={() => saveApproved(isApproved ? approvedIds.filter(id => id !== item.id) : [...approvedIds, item.id])}
+                    style={styles.iconButton}
+                >
+                    <Ionicons
+                        name={isApproved ? 'remove-circle' : 'add-circle'}
+                        size={28}
+                        color={isApproved ? '#DC3545' : '#4CAF50'}
+                    />
+                </TouchableOpacity>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {/* Profile chooser, only needed with more than one child */}
+            {profiles.length > 1 && (
+                <View style={styles.chipRow}>
+                    {profiles.map(profile => (
+                        <TouchableOpacity
+                            key={profile.id}
+                            style={[styles.chip, profile.id === profileId && styles.chipSelected]}
+                            onPress={() => setProfileId(profile.id)}
+                        >
+                            <Text style={styles.chipText}>{profile.avatar} {profile.name}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
+            {/* Search and filter */}
+            <View style={styles.toolbar}>
+                <TextInput
+                    style={styles.searchInput}
+                    placeholder="Search videos"
+                    value={search}
+                    onChangeText={setSearch}
+                    autoCorrect={false}
+                    clearButtonMode="while-editing"
+                />
+                <View style={styles.chipRow}>
+                    <TouchableOpacity
+                        style={[styles.chip, filter === 'all' && styles.chipSelected]}
+                        onPress={() => setFilter('all')}
+                    >
+                        <Text style={styles.chipText}>All videos</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[styles.chip, filter === 'approved' && styles.chipSelected]}
+                        onPress={() => setFilter('approved')}
+                    >
+                        <Text style={styles.chipText}>
+                            Approved ({approvedIds.length}{selectionLimit !== null ? ` of ${selectionLimit}` : ''})
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            {/* Bulk actions */}
+            <View style={styles.bulkBar}>
+                {checkedIds.length > 0 ? (
+                    <>
+                        <Text style={styles.bulkCount}>{checkedIds.length} selected</Text>
+                        <TouchableOpacity onPress={() => handleBulk(true)}>
+                            <Text style={styles.bulkAction}>Approve</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handleBulk(false)}>
+                            <Text style={[styles.bulkAction, styles.destructiveText]}>Remove</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => setCheckedIds([])}>
+                            <Text style={styles.bulkAction}>Cancel</Text>
+                        </TouchableOpacity>
+                    </>
+                ) : (
+                    <>
+                        <TouchableOpacity onPress={() => setCheckedIds(visibleVideos.map(v => v.id))} disabled={visibleVideos.length === 0}>
+                            <Text style={styles.bulkAction}>Select All</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={handleClearAll} disabled={approvedIds.length === 0}>
+                            <Text style={[styles.bulkAction, styles.destructiveText, approvedIds.length === 0 && styles.disabledText]}>
+                                Clear All Approved
+                            </Text>
+                        </TouchableOpacity>
+                    </>
+                )}
+            </View>
+
+            {loadError && <Text style={styles.errorText}>Couldn't reach the video service: {loadError}</Text>}
+
+            <FlatList
+                data={visibleVideos}
+                keyExtractor={item => item.id}
+                renderItem={renderVideo}
+                onEndReached={filter === 'all' && !search ? loadMore : undefined}
+                onEndReachedThreshold={0.5}
+                keyboardShouldPersistTaps="handled"
+                ListEmptyComponent={
+                    isLoading ? null : <Text style={styles.emptyText}>{search ? 'No videos match.' : 'No videos here yet.'}</Text>
+                }
+                ListFooterComponent={isLoading ? <ActivityIndicator style={styles.loader} /> : null}
+            />
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 15, paddingTop: 10 },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    chipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    chipText: { fontSize: 15, color: '#333' },
+
+    toolbar: { paddingTop: 5 },
+    searchInput: {
+        height: 44,
+        marginHorizontal: 15,
+        marginTop: 10,
+        paddingHorizontal: 12,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#ddd',
+        backgroundColor: '#fff',
+        fontSize: 16,
+    },
+
+    bulkBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#e5e5e5',
+    },
+    bulkCount: { fontSize: 15, fontWeight: '600', color: '#333' },
+    bulkAction: { fontSize: 16, color: '#007AFF' },
+    destructiveText: { color: '#DC3545' },
+    disabledText: { opacity: 0.4 },
+
+    videoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        paddingHorizontal: 15,
+        backgroundColor: '#fff',
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    thumbnail: { width: 80, height: 45, borderRadius: 6, backgroundColor: '#1c1c1e', marginLeft: 10 },
+    videoInfo: { flex: 1, marginLeft: 10 },
+    videoTitle: { fontSize: 16, color: '#333' },
+    approvedText: { fontSize: 13, color: '#4CAF50', marginTop: 2 },
+    iconButton: { padding: 4 },
+
+    loader: { marginVertical: 15 },
+    errorText: { fontSize: 14, color: '#DC3545', paddingHorizontal: 15, paddingVertical: 8 },
+    emptyText: { fontSize: 15, color: '#999', padding: 20, textAlign: 'center' },
+});
+
+// Exporting screen as default
+export default ManageVideosScreen;
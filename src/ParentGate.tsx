@@ -0,0 +1,109 @@
+// Import router for sending parents to PIN setup
+import { useRouter } from 'expo-router';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import { Alert, Modal, SafeAreaView, StyleSheet } from 'react-native';
+// The available parental checks and how one is picked for an action
+import { ParentalGate, resolveGate } from './parentalGates';
+// Import custom hook to access app-wide settings (parent session, preferred check and parent names)
+import { GateStrength, meetsStrength, useSettings } from './SettingsContext';
+// "Who is this?" step for devices shared by more than one parent
+import ParentPicker from './components/ParentPicker';
+
+// Props for the parental check
+interface ParentGateProps {
+    visible: boolean;            // Show the check
+    gate: ParentalGate | null;   // Which check to show (PIN, grown-up question or hold)
+    instruction: string;         // What the check unlocks, shown under the title
+    onVerified: (parentName?: string) => void; // Called once the check was passed (with the parent picked, if asked)
+    onCancel: () => void;        // Called when the check is dismissed
+}
+
+// Full-screen parental check shown over the current screen
+// Checks that open a parent session are followed by "Who is this?" when several parents are set up.
+const ParentGate: React.FC<ParentGateProps> = ({ visible, gate, instruction, onVerified, onCancel }) => {
+    const { securitySettings } = useSettings();
+    const [isPickingParent, setIsPickingParent] = useState<boolean>(false); // Check passed, waiting for a name
+    const GateComponent = gate?.Component;
+
+    // Asks who passed the check, unless there is nobody to choose between (a hold gesture never asks)
+    const handlePassed = () => {
+        if (gate && meetsStrength(gate.strength, 'medium') && securitySettings.parentNames.length > 1) {
+            setIsPickingParent(true);
+            return;
+        }
+        onVerified();
+    };
+
+    const handlePicked = (parentName: string) => {
+        setIsPickingParent(false);
+        onVerified(parentName);
+    };
+
+    const handleCancel = () => {
+        setIsPickingParent(false);
+        onCancel();
+    };
+
+    return (
+        <Modal visible={visible && !!GateComponent} animationType="slide" onRequestClose={handleCancel}>
+            <SafeAreaView style={styles.container}>
+                {isPickingParent ? (
+                    <ParentPicker names={securitySettings.parentNames} onPicked={handlePicked} onCancel={handleCancel} />
+                ) : (
+                    GateComponent && <GateComponent instruction={instruction} onPassed={handlePassed} onCancel={handleCancel} />
+                )}
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+// Runs actions behind a parental check of the given strength (null = no check needed).
+// Render <ParentGate {...gateProps} /> once in the screen and wrap protected actions with runProtected.
+export const useParentGate = (strength: GateStrength | null) => {
+    const router = useRouter(); // Used to send parents without a PIN to PIN setup
+    const { isPinSet, hasParentSession, startParentSession, securitySettings } = useSettings();
+    // Action waiting for the check, and the check it is waiting for
+    const [pending, setPending] = useState<{ action: () => void; gate: ParentalGate } | null>(null);
+
+    // Runs the action straight away, or after the check was passed
+    const runProtected = (action: () => void) => {
+        if (!strength || hasParentSession(strength)) { // A check passed a moment ago counts
+            action();
+            return;
+        }
+        const gate = resolveGate(strength, securitySettings.parentalGate);
+        if (gate.kind === 'pin' && !isPinSet) {
+            Alert.alert('Parent PIN Needed', 'Create a parent PIN first so children cannot do this on their own.', [
+                { text: 'Not Now', style: 'cancel' },
+                { text: 'Create PIN', onPress: () => router.push('/PinSetup') },
+            ]);
+            return;
+        }
+        setPending({ action, gate });
+    };
+
+    const gateProps = {
+        visible: pending !== null,
+        gate: pending?.gate ?? null,
+        onVerified: (parentName?: string) => {
+            const passed = pending;
+            setPending(null);
+            if (!passed) return;
+            startParentSession(passed.gate.strength, parentName); // PIN and grown-up question keep parent screens open for a while
+            passed.action();
+        },
+        onCancel: () => setPending(null),
+    };
+
+    return { runProtected, gateProps };
+};
+
+// Stylesheet
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+});
+
+// Exporting component as default
+export default ParentGate;
@@ -1,14 +1,17 @@
 // Import a custom component that shows a styled alert (heart design)
 import HeartAlert from '@/src/components/HeartAlert';
 
+// Import the "Who is this?" step shown when several parents share the device
+import ParentPicker from '@/src/components/ParentPicker';
+
 // Import font loading hook from Expo
 import { useFonts } from 'expo-font';
 
-// Import router for navigation
-import { useRouter } from 'expo-router';
+// Import router for navigation and the route params (where to go once unlocked)
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
-// Import React and useState hook
-import React, { useState } from 'react';
+// Import React and its hooks
+import React, { useEffect, useState } from 'react';
 
 // Import all necessary React Native components
 import {
@@ -16,6 +19,7 @@ import {
     KeyboardAvoidingView, // To avoid keyboard overlapping inputs
     Platform, SafeAreaView, // SafeAreaView avoids notches
     StyleSheet, Text, // Style and text rendering
+    TextInput, // For alphanumeric passcodes
     TouchableOpacity, // For pressable buttons
     View // Basic view container
 } from 'react-native';
@@ -23,19 +27,53 @@ import {
 // Import a 3rd party OTP input package for PIN entry boxes
 import OtpInput from 'react-native-otp-textinput';
 
-// Import custom settings hook that manages app settings, including PIN verification
-import { useSettings } from './SettingsContext';
+// Import the app's own keypad (used for the shuffled layout)
+import PinInput from './PinInput';
+
+// Import the parental checks (the parent may prefer one without a PIN)
+import { resolveGate } from './parentalGates';
+
+// Import the route guard helpers: the strength parent screens need and the screen to continue to
+import { PARENT_ROUTE_STRENGTH, resolveNextRoute } from './routeGuard';
+
+// Import the trusted clock the lockout deadline is measured on
+import { trustedNow } from './schedule';
+
+// Import custom settings hook that manages app settings, including PIN verification and the passcode policy
+import { GateStrength, isCompletePasscode, useSettings } from './SettingsContext';
+
+// Formats the remaining lockout time as "h:mm:ss" or "m:ss"
+const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
 
 // Define the component using TypeScript's React.FC (Functional Component)
 const PinEntryScreen: React.FC = () => {
     const router = useRouter(); // Used for navigation
-    const { verifyPin } = useSettings(); // Get function to verify PIN from global settings context
+    const { next } = useLocalSearchParams<{ next?: string }>(); // Guarded screen that sent the parent here
+    // Get PIN verification, the passcode policy and the persisted lockout state from global settings context
+    const {
+        verifyPin, pinLockedUntil, remainingPinAttempts, passcodePolicy, securitySettings, startParentSession,
+        endParentSession
+    } = useSettings();
+    const gate = resolveGate(PARENT_ROUTE_STRENGTH, securitySettings.parentalGate); // Check parent screens ask for
+    const isAlphanumeric = passcodePolicy.kind === 'alphanumeric';
+    const useShuffledKeypad = !isAlphanumeric && securitySettings.shuffleKeypad; // Keypad that moves its digits around
 
     // State to store user-entered PIN
     const [enteredPin, setEnteredPin] = useState<string>('');
 
-    // State to count how many failed attempts the user has made
-    const [attempts, setAttempts] = useState<number>(0);
+    // Bumped to clear (and reshuffle) the keypad after a wrong PIN
+    const [keypadKey, setKeypadKey] = useState<number>(0);
+
+    // Milliseconds left in the current lockout (0 when not locked)
+    const [lockoutRemaining, setLockoutRemaining] = useState<number>(0);
+    const isLockedOut = lockoutRemaining > 0;
 
     // State to control visibility of the HeartAlert popup
     const [alertVisible, setAlertVisible] = useState(false);
@@ -49,24 +87,41 @@ const PinEntryScreen: React.FC = () => {
     // Boolean to check if alert is for success (used for logic after alert closes)
     const [isSuccess, setIsSuccess] = useState(false);
 
+    // Strength of the check just passed while waiting for the parent to say who they are (null = not asking)
+    const [pickingStrength, setPickingStrength] = useState<GateStrength | null>(null);
+
     // Load custom font 'Lora-Regular.ttf' and assign it to 'AppFont'
     const [fontsLoaded] = useFonts({
         'AppFont': require('@/assets/Lora-Regular.ttf'),
     });
 
-    // Function called when user presses "Unlock"
-    const handleVerifyPin = (): void => {
-        // If PIN is not 4 digits, show invalid alert
-        if (enteredPin.length < 4) {
-            setAlertTitle('Invalid PIN');
-            setAlertMessage('Please enter a complete 4-digit PIN.');
+    // Tick the lockout countdown once a second while a lockout is active
+    useEffect(() => {
+        const update = () => setLockoutRemaining(pinLockedUntil ? Math.max(0, pinLockedUntil - trustedNow()) : 0);
+        update();
+        if (!pinLockedUntil) return;
+        const intervalId = setInterval(update, 1000);
+        return () => clearInterval(intervalId);
+    }, [pinLockedUntil]);
+
+    // Function called when user presses "Unlock" (or the shuffled keypad has every digit)
+    const handleVerifyPin = async (pin: string): Promise<void> => {
+        // Ignore presses while locked out (button is disabled, this is a safety net)
+        if (isLockedOut) return;
+
+        // If the PIN doesn't have the saved shape yet, show invalid alert
+        if (!isCompletePasscode(pin, passcodePolicy)) {
+            setAlertTitle(isAlphanumeric ? 'Invalid Passcode' : 'Invalid PIN');
+            setAlertMessage(isAlphanumeric
+                ? 'Please enter your passcode.'
+                : `Please enter a complete ${passcodePolicy.length}-digit PIN.`);
             setIsSuccess(false);
             setAlertVisible(true);
             return;
         }
 
         // Check if the entered PIN matches the saved one
-        const isCorrect = verifyPin(enteredPin);
+        const isCorrect = await verifyPin(pin);
         
         if (isCorrect) {
             // If correct PIN, show success alert
@@ -75,20 +130,18 @@ const PinEntryScreen: React.FC = () => {
             setIsSuccess(true); // Used to redirect later
             setAlertVisible(true); // Show alert
         } else {
-            // Increment number of failed attempts
-            const newAttempts = attempts + 1;
-            setAttempts(newAttempts);
-
             // Clear input so user can try again
             setEnteredPin('');
+            setKeypadKey(k => k + 1);
 
-            // Show failure message with remaining attempts or block access
-            if (newAttempts >= 3) {
+            // Context has counted the failure; work out how many tries are left from the value before it
+            const attemptsLeft = remainingPinAttempts - 1;
+            if (attemptsLeft <= 0) {
                 setAlertTitle('Too Many Attempts');
-                setAlertMessage('Please try again later.');
+                setAlertMessage('PIN entry is locked for a while. Please try again later.');
             } else {
                 setAlertTitle('Incorrect PIN');
-                setAlertMessage(`You have ${3 - newAttempts} attempts remaining.`);
+                setAlertMessage(`You have ${attemptsLeft} attempts remaining.`);
             }
 
             setIsSuccess(false); // Mark as failed
@@ -100,14 +153,28 @@ const PinEntryScreen: React.FC = () => {
     const handleAlertClose = () => {
         setAlertVisible(false); // Hide alert
 
-        // If PIN was correct, navigate to Settings page
+        // If PIN was correct, continue to the guarded screen (Settings by default)
         if (isSuccess) {
-            router.replace({ pathname: '/Settings' });
-        } 
-        // If too many attempts, go back to previous screen
-        else if (attempts >= 3) {
-            router.back();
+            continueUnlocked('high');
         }
+        // On lockout the screen stays open and shows the countdown
+    };
+
+    // Opens the guarded screen, first asking which parent this is when more than one is set up
+    const continueUnlocked = (strength: GateStrength) => {
+        if (securitySettings.parentNames.length > 1) {
+            setPickingStrength(strength);
+            return;
+        }
+        router.replace(resolveNextRoute(next));
+    };
+
+    // Leaves without unlocking. When the route guard sent us here, going back would land on the
+    // guarded screen again, so drop out of the parent screens entirely.
+    const handleCancel = () => {
+        if (next) router.dismissTo('/(tabs)');
+        else if (router.canGoBack()) router.back();
+        else router.replace('/(tabs)');
     };
 
     // Don’t show UI until the custom font is loaded
@@ -115,6 +182,78 @@ const PinEntryScreen: React.FC = () => {
         return null;
     }
 
+    // Check passed: the parent picks their name, so the activity log knows who made the changes
+    if (pickingStrength) {
+        return (
+            <SafeAreaView style={styles.keypadScreen}>
+                <ParentPicker
+                    names={securitySettings.parentNames}
+                    onPicked={name => {
+                        startParentSession(pickingStrength, name);
+                        router.replace(resolveNextRoute(next));
+                    }}
+                    onCancel={() => {
+                        endParentSession(); // Nobody said who they are, so don't leave the parent screens open
+                        handleCancel();
+                    }}
+                />
+            </SafeAreaView>
+        );
+    }
+
+    // Parent prefers a check without a PIN: show it full screen and continue once it is passed
+    if (gate.kind !== 'pin') {
+        const GateComponent = gate.Component;
+        return (
+            <SafeAreaView style={styles.keypadScreen}>
+                <GateComponent
+                    instruction="Answer this to open the parent screens."
+                    onPassed={() => {
+                        startParentSession(gate.strength);
+                        continueUnlocked(gate.strength);
+                    }}
+                    onCancel={handleCancel}
+                />
+            </SafeAreaView>
+        );
+    }
+
+    // Shuffled keypad mode: the app's keypad full screen, digits in a new order every time
+    if (useShuffledKeypad) {
+        return (
+            <>
+                <SafeAreaView style={styles.keypadScreen}>
+                    <PinInput
+                        key={keypadKey}
+                        title="Enter Parent PIN"
+                        instruction={isLockedOut
+                            ? `Too many wrong PINs. Try again in ${formatCountdown(lockoutRemaining)}`
+                            : 'The keys move around every time.'}
+                        onSubmit={handleVerifyPin}
+                        onCancel={handleCancel}
+                        showCancel={true}
+                        shuffle={true}
+                    />
+
+                    {/* Forgot PIN link: reset it with the account password */}
+                    <TouchableOpacity
+                        style={styles.keypadForgotButton}
+                        onPress={() => router.replace({ pathname: '/ForgotPin', params: next ? { next } : {} })}
+                    >
+                        <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+                    </TouchableOpacity>
+                </SafeAreaView>
+
+                <HeartAlert
+                    visible={alertVisible}
+                    title={alertTitle}
+                    message={alertMessage}
+                    onClose={handleAlertClose}
+                />
+            </>
+        );
+    }
+
     // UI layout starts here
     return (
         <>
@@ -132,25 +271,60 @@ const PinEntryScreen: React.FC = () => {
                     >
                         <View style={styles.formContainer}>
                             {/* Heading text */}
-                            <Text style={styles.title}>Enter Parent PIN</Text>
+                            <Text style={styles.title}>{isAlphanumeric ? 'Enter Parent Passcode' : 'Enter Parent PIN'}</Text>
                             
-                            {/* PIN input boxes using OTP component */}
-                            <OtpInput
-                                handleTextChange={setEnteredPin} // Store PIN in state
-                                tintColor="#4CAF50"              // Active border color
-                                offTintColor="#d3d3d3"           // Inactive border color
-                                containerStyle={styles.pinInputContainer}
-                                textInputStyle={styles.pinBox}
-                                defaultValue={enteredPin}
-                            />
-
-                            {/* Unlock button triggers PIN check */}
-                            <TouchableOpacity style={styles.unlockButton} onPress={handleVerifyPin}>
+                            {isAlphanumeric ? (
+                                // Text field for a letters-and-numbers passcode
+                                <TextInput
+                                    style={styles.passcodeInput}
+                                    value={enteredPin}
+                                    onChangeText={setEnteredPin}
+                                    placeholder="Passcode"
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    secureTextEntry={true}
+                                    onSubmitEditing={() => handleVerifyPin(enteredPin)}
+                                />
+                            ) : (
+                                // PIN input boxes using OTP component, one per digit of the saved PIN
+                                <OtpInput
+                                    key={passcodePolicy.length}
+                                    inputCount={passcodePolicy.length ?? undefined}
+                                    handleTextChange={setEnteredPin} // Store PIN in state
+                                    tintColor="#4CAF50"              // Active border color
+                                    offTintColor="#d3d3d3"           // Inactive border color
+                                    containerStyle={styles.pinInputContainer}
+                                    textInputStyle={[styles.pinBox, (passcodePolicy.length ?? 0) > 6 && styles.pinBoxNarrow]}
+                                    defaultValue={enteredPin}
+                                />
+                            )}
+
+                            {/* Live countdown while PIN entry is locked */}
+                            {isLockedOut && (
+                                <Text style={styles.lockoutText}>
+                                    Too many wrong PINs. Try again in {formatCountdown(lockoutRemaining)}
+                                </Text>
+                            )}
+
+                            {/* Unlock button triggers PIN check (disabled during lockout) */}
+                            <TouchableOpacity
+                                style={[styles.unlockButton, isLockedOut && styles.unlockButtonDisabled]}
+                                onPress={() => handleVerifyPin(enteredPin)}
+                                disabled={isLockedOut}
+                            >
                                 <Text style={styles.unlockButtonText}>Unlock</Text>
                             </TouchableOpacity>
 
+                            {/* Forgot PIN link: reset it with the account password */}
+                            <TouchableOpacity
+                                style={styles.forgotButton}
+                                onPress={() => router.replace({ pathname: '/ForgotPin', params: next ? { next } : {} })}
+                            >
+                                <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+                            </TouchableOpacity>
+
                             {/* Cancel button navigates back */}
-                            <TouchableOpacity style={styles.cancelButton} onPress={() => router.back()}>
+                            <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
                                 <Text style={styles.cancelButtonText}>Cancel</Text>
                             </TouchableOpacity>
                         </View>
@@ -217,6 +391,23 @@ const styles = StyleSheet.create({
         color: '#333',
         fontFamily: 'AppFont',
     },
+    pinBoxNarrow: {
+        width: 34, // Seven or eight boxes still fit on one line
+        fontSize: 18,
+    },
+    passcodeInput: {
+        width: '100%',
+        height: 55,
+        borderWidth: 2,
+        borderColor: '#d3d3d3',
+        borderRadius: 10,
+        paddingHorizontal: 15,
+        fontSize: 18,
+        color: '#333',
+        backgroundColor: '#fff',
+        marginBottom: 30,
+        fontFamily: 'AppFont',
+    },
     unlockButton: {
         backgroundColor: '#4CAF50', // Green color
         paddingVertical: 15,
@@ -228,12 +419,38 @@ const styles = StyleSheet.create({
         shadowRadius: 4,
         shadowOffset: { width: 0, height: 2 },
     },
+    unlockButtonDisabled: {
+        backgroundColor: '#a5d6a7', // Faded green while locked out
+    },
+    lockoutText: {
+        fontSize: 15,
+        color: '#DC3545',
+        textAlign: 'center',
+        marginBottom: 20,
+        fontFamily: 'AppFont',
+    },
     unlockButtonText: {
         color: '#fff',
         fontSize: 18,
         fontWeight: 'bold',
         fontFamily: 'AppFont',
     },
+    forgotButton: {
+        marginTop: 20,
+    },
+    keypadScreen: {
+        flex: 1,
+        backgroundColor: '#f5f5f5', // Same grey as the keypad
+    },
+    keypadForgotButton: {
+        alignItems: 'center',
+        paddingVertical: 20,
+    },
+    forgotButtonText: {
+        fontSize: 16,
+        color: '#007AFF',
+        fontFamily: 'AppFont',
+    },
     cancelButton: {
         marginTop: 20,
     },
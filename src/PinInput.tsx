@@ -1,11 +1,27 @@
-// Import core React and useState hook for state management
-import React, { useState } from 'react';
+// Import haptics for the optional buzz on each key press
+import * as Haptics from 'expo-haptics';
+
+// Import core React and hooks for state management
+import React, { useMemo, useState } from 'react';
 
 // Import basic UI components from React Native
 import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-// Define how many digits the PIN should have
-const PIN_LENGTH = 4;
+// Import the saved passcode policy (PIN length, or alphanumeric) and keypad options
+import { useSettings } from './SettingsContext';
+
+// Digits in their usual keypad order
+const DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'];
+
+// Returns the digits in a random order (Fisher–Yates)
+const shuffleDigits = (): string[] => {
+    const digits = [...DIGITS];
+    for (let i = digits.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [digits[i], digits[j]] = [digits[j], digits[i]];
+    }
+    return digits;
+};
 
 // TypeScript interface for props this component will receive
 interface PinInputProps {
@@ -14,6 +30,8 @@ interface PinInputProps {
     onSubmit: (pin: string) => void;     // Callback when full PIN is entered
     onCancel?: () => void;               // Optional callback for Cancel button
     showCancel?: boolean;                // Optional boolean to show/hide Cancel
+    shuffle?: boolean;                   // Mix up the digits on every display (defaults to the security setting)
+    haptics?: boolean;                   // Vibrate on each key press (defaults to the security setting)
 }
 
 // Main component definition using functional component syntax
@@ -22,17 +40,31 @@ const PinInput: React.FC<PinInputProps> = ({
     instruction, 
     onSubmit, 
     onCancel, 
-    showCancel = false // Default is false if not provided
+    showCancel = false, // Default is false if not provided
+    shuffle,
+    haptics,
 }) => {
+    const { passcodePolicy, securitySettings } = useSettings(); // Decides between the keypad and a text field
+    const isShuffled = shuffle ?? securitySettings.shuffleKeypad;
+    const useHaptics = haptics ?? securitySettings.keypadHaptics;
+    const pinLength = passcodePolicy.length ?? 0; // Digits to collect on the keypad
     const [pin, setPin] = useState<string>(''); // State to store entered PIN
 
+    // Digit order for this display; a new order each time the keypad is mounted (ParentGate remounts it after a wrong PIN)
+    const digitOrder = useMemo(() => (isShuffled ? shuffleDigits() : DIGITS), [isShuffled]);
+
+    // Short tap on every key when haptics are on (some devices have no motor, so failures are ignored)
+    const buzz = (): void => {
+        if (useHaptics) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    };
+
     // Called when a number key is pressed
     const handleKeyPress = (num: string): void => {
-        // Only allow input if length is less than 4
-        if (pin.length < PIN_LENGTH) {
+        // Only allow input until the PIN has all its digits
+        if (pin.length < pinLength) {
             const newPin = pin + num;     // Add new digit to the PIN
             setPin(newPin);               // Update state
-            if (newPin.length === PIN_LENGTH) {
+            if (newPin.length === pinLength) {
                 // Wait for next tick so state update completes before submit
                 setTimeout(() => {
                     onSubmit(newPin);     // Call the parent with full PIN
@@ -50,12 +82,12 @@ const PinInput: React.FC<PinInputProps> = ({
 
     // Render the keypad layout dynamically
     const renderKeypad = () => {
-        // 4 rows of keys, including Cancel and Delete
+        // 4 rows of keys, including Cancel and Delete (digits in fixed or shuffled order)
         const keys: string[][] = [
-            ['1', '2', '3'],
-            ['4', '5', '6'],
-            ['7', '8', '9'],
-            [showCancel ? 'Cancel' : '', '0', '<'], // < represents delete
+            digitOrder.slice(0, 3),
+            digitOrder.slice(3, 6),
+            digitOrder.slice(6, 9),
+            [showCancel ? 'Cancel' : '', digitOrder[9], '<'], // < represents delete
         ];
 
         // Map through each row to generate buttons
@@ -65,7 +97,9 @@ const PinInput: React.FC<PinInputProps> = ({
                     <TouchableOpacity
                         key={key}
                         style={[styles.keypadButton, key === '' ? styles.emptyKey : {}]} // Hide empty key visually
+                        activeOpacity={isShuffled ? 1 : 0.2} // Shuffled keypad: no flash that shows which key was hit
                         onPress={() => {
+                            buzz();
                             if (key >= '0' && key <= '9') {
                                 handleKeyPress(key); // Handle number press
                             } else if (key === '<') {
@@ -84,6 +118,42 @@ const PinInput: React.FC<PinInputProps> = ({
         ));
     };
 
+    // Alphanumeric passcode: a text field and an Unlock button instead of the keypad
+    if (passcodePolicy.kind === 'alphanumeric') {
+        return (
+            <View style={styles.container}>
+                <Text style={styles.title}>{title}</Text>
+                {instruction && <Text style={styles.instruction}>{instruction}</Text>}
+
+                <TextInput
+                    style={styles.passcodeInput}
+                    value={pin}
+                    onChangeText={setPin}
+                    placeholder="Passcode"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus={true}
+                    secureTextEntry={true}
+                    onSubmitEditing={() => pin && onSubmit(pin)}
+                />
+
+                <TouchableOpacity
+                    style={[styles.submitButton, !pin && styles.submitButtonDisabled]}
+                    onPress={() => onSubmit(pin)}
+                    disabled={!pin}
+                >
+                    <Text style={styles.submitButtonText}>Unlock</Text>
+                </TouchableOpacity>
+
+                {showCancel && onCancel && (
+                    <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                        <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    }
+
     // JSX layout
     return (
         // Main container
@@ -94,9 +164,9 @@ const PinInput: React.FC<PinInputProps> = ({
             {/* Optional instruction text */}
             {instruction && <Text style={styles.instruction}>{instruction}</Text>}
 
-            {/* Dots showing PIN entry progress */}
+            {/* Dots showing PIN entry progress (only how many digits, never which) */}
             <View style={styles.pinDotsContainer}>
-                {Array(PIN_LENGTH).fill(0).map((_, index) => (
+                {Array(pinLength).fill(0).map((_, index) => (
                     <View
                         key={index}
                         style={[styles.pinDot, index < pin.length ? styles.pinDotFilled : {}]} // Fill dot if digit entered
@@ -113,7 +183,7 @@ const PinInput: React.FC<PinInputProps> = ({
             <TextInput
                 style={styles.hiddenInput}
                 value={pin}
-                maxLength={PIN_LENGTH}
+                maxLength={pinLength}
                 keyboardType="numeric"
                 editable={false} // Prevent manual typing
                 caretHidden={true} // Hide the cursor
@@ -201,6 +271,39 @@ const styles = StyleSheet.create({
         fontSize: 24,
         fontWeight: 'bold',
         color: '#333', // Dark text
+    },
+    passcodeInput: {
+        width: '80%',
+        maxWidth: 300,
+        height: 50,
+        borderWidth: 1,
+        borderColor: '#ccc',
+        borderRadius: 10,
+        backgroundColor: '#fff',
+        paddingHorizontal: 15,
+        fontSize: 18,
+        marginBottom: 25,
+    },
+    submitButton: {
+        backgroundColor: '#6200ee',  // Same purple as the filled dots
+        paddingVertical: 14,
+        paddingHorizontal: 50,
+        borderRadius: 30,
+    },
+    submitButtonDisabled: {
+        backgroundColor: '#b9a3e8',  // Faded purple until something is typed
+    },
+    submitButtonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    cancelButton: {
+        marginTop: 20,
+    },
+    cancelButtonText: {
+        fontSize: 16,
+        color: '#555',
     }
 });
 
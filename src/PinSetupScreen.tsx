@@ -1,6 +1,9 @@
 // Import your custom HeartAlert popup component (for success message)
 import HeartAlert from '@/src/components/HeartAlert';
 
+// Import the PIN / passcode choice shown above the new PIN fields
+import PasscodeKindPicker from '@/src/components/PasscodeKindPicker';
+
 // Import icon set from Expo (used for eye icons)
 import { Ionicons } from '@expo/vector-icons';
 
@@ -8,7 +11,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useFonts } from 'expo-font';
 
 // Import navigation hook to move between screens
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
 // Import React and state hook
 import React, { useState } from 'react';
@@ -26,13 +29,28 @@ import {
     View // Container
 } from 'react-native';
 
-// Import the custom app settings hook (where PIN is saved)
-import { useSettings } from './SettingsContext';
+// Import the route guard helper that picks the screen to continue to
+import { resolveNextRoute } from './routeGuard';
+// Import the trusted clock the lockout deadline is measured on
+import { trustedNow } from './schedule';
+// Import the custom app settings hook (where PIN is saved) and the passcode policy rules
+import {
+    MAX_PASSCODE_LENGTH, MAX_PIN_LENGTH, PasscodeKind, useSettings, validateNewPasscode
+} from './SettingsContext';
 
 // Functional component definition using TypeScript
 const PinSetupScreen: React.FC = () => {
     const router = useRouter(); // Used to navigate to next screen
-    const { savePin } = useSettings(); // Function from SettingsContext to store the PIN
+    const { next } = useLocalSearchParams<{ next?: string }>(); // Guarded screen that sent the parent here
+    // Functions from SettingsContext to check the current PIN and store the new one
+    const { isPinSet, savePin, verifyPin, pinLockedUntil, remainingPinAttempts, passcodePolicy } = useSettings();
+
+    // Kind of the new passcode (starts as whatever is saved now)
+    const [kind, setKind] = useState<PasscodeKind>(passcodePolicy.kind);
+    const isAlphanumeric = kind === 'alphanumeric';
+
+    // State for the current PIN (only asked for when changing an existing PIN)
+    const [currentPin, setCurrentPin] = useState<string>('');
 
     // State for storing entered PIN
     const [pin, setPin] = useState<string>('');
@@ -56,6 +74,9 @@ const PinSetupScreen: React.FC = () => {
     const [alertTitle, setAlertTitle] = useState('');
     const [alertMessage, setAlertMessage] = useState('');
 
+    // Changing an existing PIN (kept as-is behind the success alert, when the new PIN is already saved)
+    const isChanging = isPinSet && !alertVisible;
+
     // Load custom font from assets
     const [fontsLoaded] = useFonts({
         'AppFont': require('@/assets/Lora-Regular.ttf'),
@@ -64,13 +85,16 @@ const PinSetupScreen: React.FC = () => {
     // Function that runs when user taps "Set PIN"
     const handleSetPin = async (): Promise<void> => {
         // Validate if inputs are filled
-        if (!pin || !confirmPin) {
-            return Alert.alert('Missing Input', 'Please enter and confirm your PIN.');
+        if ((isChanging && !currentPin) || !pin || !confirmPin) {
+            return Alert.alert('Missing Input', isChanging
+                ? 'Please enter your current PIN, then enter and confirm the new one.'
+                : 'Please enter and confirm your PIN.');
         }
 
-        // Validate PIN length
-        if (pin.length < 4) {
-            return Alert.alert('PIN Too Short', 'PIN must be at least 4 digits.');
+        // Validate the new PIN against the passcode policy
+        const policyError = validateNewPasscode(pin, kind);
+        if (policyError) {
+            return Alert.alert(isAlphanumeric ? 'Passcode Not Allowed' : 'PIN Not Allowed', policyError);
         }
 
         // Check if both PIN entries match
@@ -81,13 +105,28 @@ const PinSetupScreen: React.FC = () => {
         // Show loading spinner
         setIsLoading(true);
         try {
+            // When changing, the current PIN must be right (wrong ones count towards the lockout)
+            if (isChanging) {
+                const wasLockedOut = pinLockedUntil !== null && pinLockedUntil > trustedNow();
+                if (!(await verifyPin(currentPin))) {
+                    setCurrentPin('');
+                    const attemptsLeft = remainingPinAttempts - 1; // Context has counted this failure
+                    return Alert.alert(
+                        wasLockedOut || attemptsLeft <= 0 ? 'Too Many Attempts' : 'Incorrect PIN',
+                        wasLockedOut || attemptsLeft <= 0
+                            ? 'PIN entry is locked for a while. Use "Forgot PIN?" to reset it with your account password.'
+                            : `Your current PIN is not right. You have ${attemptsLeft} attempts remaining.`
+                    );
+                }
+            }
+
             // Try to save the PIN using context
-            const success = await savePin(pin);
+            const success = await savePin(pin, kind);
 
             if (success) {
                 // If saved successfully, show the HeartAlert popup
                 setAlertTitle('Success');
-                setAlertMessage('Parent PIN has been set successfully.');
+                setAlertMessage(isChanging ? 'Parent PIN has been changed.' : 'Parent PIN has been set successfully.');
                 setAlertVisible(true); // Show the alert
             } else {
                 // Throw error if save failed
@@ -125,20 +164,49 @@ const PinSetupScreen: React.FC = () => {
                         {/* Container for the form */}
                         <View style={styles.formContainer}>
                             {/* Title and description */}
-                            <Text style={styles.title}>Set Parent PIN</Text>
+                            <Text style={styles.title}>{isChanging ? 'Change Parent PIN' : 'Set Parent PIN'}</Text>
                             <Text style={styles.instruction}>
-                                Create a PIN that will be required to access parent settings.
+                                {isChanging
+                                    ? 'Enter your current PIN, then choose a new one.'
+                                    : 'Create a PIN that will be required to access parent settings.'}
                             </Text>
 
+                            {/* --- Current PIN Input (changing only) --- */}
+                            {isChanging && (
+                                <View style={styles.inputContainer}>
+                                    <TextInput
+                                        style={styles.input}
+                                        placeholder={passcodePolicy.kind === 'alphanumeric' ? 'Current Passcode' : 'Current PIN'}
+                                        value={currentPin}
+                                        onChangeText={setCurrentPin}
+                                        keyboardType={passcodePolicy.kind === 'alphanumeric' ? 'default' : 'numeric'}
+                                        autoCapitalize="none"
+                                        maxLength={passcodePolicy.length ?? MAX_PASSCODE_LENGTH}
+                                        secureTextEntry={true}
+                                    />
+                                </View>
+                            )}
+
+                            {/* --- PIN or passcode --- */}
+                            <PasscodeKindPicker
+                                value={kind}
+                                onChange={newKind => {
+                                    setKind(newKind);
+                                    setPin('');
+                                    setConfirmPin('');
+                                }}
+                            />
+
                             {/* --- PIN Input Field --- */}
                             <View style={styles.inputContainer}>
                                 <TextInput
                                     style={styles.input}
-                                    placeholder="Enter PIN"
+                                    placeholder={`${isChanging ? 'New' : 'Enter'} ${isAlphanumeric ? 'Passcode' : 'PIN'}`}
                                     value={pin}
                                     onChangeText={setPin}
-                                    keyboardType="numeric"
-                                    maxLength={6}
+                                    keyboardType={isAlphanumeric ? 'default' : 'numeric'}
+                                    autoCapitalize="none"
+                                    maxLength={isAlphanumeric ? MAX_PASSCODE_LENGTH : MAX_PIN_LENGTH}
                                     secureTextEntry={!isPinVisible} // Hide/show PIN
                                 />
                                 {/* Eye icon to toggle visibility */}
@@ -155,11 +223,12 @@ const PinSetupScreen: React.FC = () => {
                             <View style={styles.inputContainer}>
                                 <TextInput
                                     style={styles.input}
-                                    placeholder="Confirm PIN"
+                                    placeholder={`Confirm ${isChanging ? 'New ' : ''}${isAlphanumeric ? 'Passcode' : 'PIN'}`}
                                     value={confirmPin}
                                     onChangeText={setConfirmPin}
-                                    keyboardType="numeric"
-                                    maxLength={6}
+                                    keyboardType={isAlphanumeric ? 'default' : 'numeric'}
+                                    autoCapitalize="none"
+                                    maxLength={isAlphanumeric ? MAX_PASSCODE_LENGTH : MAX_PIN_LENGTH}
                                     secureTextEntry={!isConfirmPinVisible}
                                 />
                                 {/* Eye icon for confirm PIN */}
@@ -177,7 +246,17 @@ const PinSetupScreen: React.FC = () => {
                                 <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
                             ) : (
                                 <TouchableOpacity style={styles.button} onPress={handleSetPin}>
-                                    <Text style={styles.buttonText}>Set PIN</Text>
+                                    <Text style={styles.buttonText}>{isChanging ? 'Change PIN' : 'Set PIN'}</Text>
+                                </TouchableOpacity>
+                            )}
+
+                            {/* --- Forgot PIN link (changing only) --- */}
+                            {isChanging && (
+                                <TouchableOpacity
+                                    style={styles.linkButton}
+                                    onPress={() => router.replace({ pathname: '/ForgotPin', params: next ? { next } : {} })}
+                                >
+                                    <Text style={styles.linkText}>Forgot PIN?</Text>
                                 </TouchableOpacity>
                             )}
                         </View>
@@ -192,7 +271,7 @@ const PinSetupScreen: React.FC = () => {
                 message={alertMessage}
                 onClose={() => {
                     setAlertVisible(false); // Hide alert
-                    router.replace({ pathname: '/Settings' }); // Navigate to Settings page
+                    router.replace(resolveNextRoute(next)); // Continue to the guarded screen (Settings by default)
                 }}
             />
         </>
@@ -272,6 +351,14 @@ const styles = StyleSheet.create({
     loader: {
         marginTop: 20,
     },
+    linkButton: {
+        marginTop: 20,
+    },
+    linkText: {
+        fontSize: 16,
+        color: '#007AFF',
+        fontFamily: 'AppFont',
+    },
 });
 
 // Export the component so it can be used in navigation
@@ -0,0 +1,309 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// Import network checking library to see if internet is working
+import NetInfo from '@react-native-community/netinfo';
+// Import Stripe payment library
+import { useStripe } from '@stripe/stripe-react-native';
+// Import app constants and device info (sent with the payment for support)
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+// Import router and the route params (the video to select once premium is unlocked)
+import { useLocalSearchParams, useRouter } from 'expo-router';
+// React core and hooks
+import React, { useEffect, useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    ActivityIndicator, Alert, SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+// Import Firebase authentication
+import { auth } from '@/firebaseConfig';
+// Import the payment API and plan helpers
+import { createPayment } from './api/payments';
+import { formatPlanPrice, Plan } from './api/plans';
+// Plan catalogue and purchase recording
+import { useEntitlement } from './EntitlementContext';
+// Parental check shown before the payment sheet
+import ParentGate, { useParentGate } from './ParentGate';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+
+// What the Stripe payment is recorded as
+const PURCHASE_TYPE = 'unlimited_video_selection';
+
+// How a plan's selection limit reads on its card
+const describeLimit = (plan: Plan): string =>
+    plan.selectionLimit === null ? 'Unlimited approved videos' : `Up to ${plan.selectionLimit} approved videos`;
+
+// Plan picker with promo code entry; pays through the Stripe payment sheet
+const PlansScreen: React.FC = () => {
+    const router = useRouter(); // Used to close the picker after buying
+    const { videoId } = useLocalSearchParams<{ videoId?: string }>(); // Video the parent was trying to approve
+    const { initPaymentSheet, presentPaymentSheet } = useStripe();
+    const { plans, freeSelectionLimit, isLoadingPlans, refreshPlans, completePurchase, entitlement, isPremium } = useEntitlement();
+    const { selectedVideos, toggleVideoSelectionInContext, securitySettings } = useSettings();
+    // Spending money needs the strongest check (the parent PIN) unless turned off in Settings
+    const { runProtected, gateProps } = useParentGate(securitySettings.requirePinForPurchases ? 'high' : null);
+
+    const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null); // Plan the parent picked
+    const [promoCode, setPromoCode] = useState<string>(''); // Promo code as typed
+    const [isPaying, setIsPaying] = useState<boolean>(false); // Payment in progress
+
+    // Pre-select the first plan once the catalogue is there
+    useEffect(() => {
+        if (!selectedPlanId && plans.length > 0) setSelectedPlanId(plans[0].id);
+    }, [plans, selectedPlanId]);
+
+    const selectedPlan = plans.find(p => p.id === selectedPlanId) ?? null;
+
+    // Creates the payment for the chosen plan, shows the Stripe sheet and records the purchase
+    const handlePurchase = async (): Promise<void> => {
+        if (!selectedPlan) return;
+
+        // Check internet connection
+        const network = await NetInfo.fetch();
+        if (!network.isConnected) {
+            Alert.alert('Error', 'No internet connection. Please check your network and try again.');
+            return;
+        }
+
+        setIsPaying(true);
+        try {
+            // Get current user from Firebase Auth
+            const currentUser = auth.currentUser;
+            if (!currentUser) throw new Error('User not authenticated. Please log in first.');
+
+            // Gather user and device information
+            const userDetails = {
+                userId: currentUser.uid,                                                      // Firebase user ID
+                userName: currentUser.displayName || currentUser.email?.split('@')[0] || 'User', // User name with fallbacks
+                userEmail: currentUser.email || '',                                           // User email
+                deviceInfo: JSON.stringify({                                                  // Device info as JSON string
+                    deviceName: Device.deviceName || 'Unknown Device',
+                    deviceType: Device.deviceType || 'Unknown',
+                    osName: Device.osName || 'Unknown OS',
+                    osVersion: Device.osVersion || 'Unknown Version',
+                    modelName: Device.modelName || 'Unknown Model',
+                    brand: Device.brand || 'Unknown Brand',
+                }),
+                appVersion: Constants.expoConfig?.version || '1.0.0',                         // App version
+                purchaseType: PURCHASE_TYPE,                                                  // What user is buying
+            };
+            const trimmedPromo = promoCode.trim().toUpperCase();
+
+            // Step 1: Create payment intent for the plan (the backend applies the promo code or rejects it)
+            const paymentData = await createPayment({
+                ...userDetails,
+                planId: selectedPlan.id,
+                promoCode: trimmedPromo || undefined,
+            });
+
+            // Step 2: Initialize payment sheet with user information
+            const { error: initError } = await initPaymentSheet({
+                merchantDisplayName: 'Kid Tok Premium',
+                paymentIntentClientSecret: paymentData.clientSecret,
+                defaultBillingDetails: { name: userDetails.userName, email: userDetails.userEmail },
+                appearance: {
+                    colors: { primary: '#007AFF', background: '#ffffff', componentBackground: '#f6f6f6' },
+                    shapes: { borderRadius: 12 },
+                },
+                applePay: { merchantCountryCode: 'US' },
+                googlePay: { merchantCountryCode: 'US', testEnv: __DEV__ },
+            });
+            if (initError) throw new Error(initError.message);
+
+            // Step 3: Present payment sheet to user (a cancel is not an error)
+            const { error: paymentError } = await presentPaymentSheet();
+            if (paymentError) {
+                if (paymentError.code !== 'Canceled') Alert.alert('Payment Failed', paymentError.message);
+                return;
+            }
+
+            // Step 4: Record the purchase, confirm it with the backend and save premium for this user
+            const status = await completePurchase({
+                paymentIntentId: paymentData.paymentIntentId,
+                purchaseType: PURCHASE_TYPE,
+                plan: selectedPlan,
+                promoCode: trimmedPromo || null,
+                amount: paymentData.amount ?? null,
+                receiptEmail: userDetails.userEmail,
+            });
+            if (status === 'rejected') {
+                Alert.alert('Payment Not Accepted', 'The payment service did not accept this payment, so premium was not unlocked.');
+                return;
+            }
+
+            // Step 5: Approve the video that led here (if the new plan has room for it) and close the picker.
+            // Premium is on either way; an unconfirmed payment is retried in the background.
+            const isConfirmed = status === 'confirmed';
+            Alert.alert(
+                isConfirmed ? 'Premium Unlocked! 🎉' : 'Payment Received',
+                isConfirmed
+                    ? `Welcome to ${selectedPlan.name}, ${userDetails.userName}!\n\nReceipt sent to: ${userDetails.userEmail}`
+                    : `Your payment for ${selectedPlan.name} went through, but our server has not confirmed it yet. ` +
+                      `Premium is on while we keep retrying. You can check its status under Settings › Purchases.` +
+                      `\n\nReceipt sent to: ${userDetails.userEmail}`,
+                [{
+                    text: 'Great!',
+                    onPress: () => {
+                        const hasRoom = selectedPlan.selectionLimit === null || selectedVideos.length < selectedPlan.selectionLimit;
+                        if (videoId && hasRoom && !selectedVideos.includes(videoId)) toggleVideoSelectionInContext(videoId);
+                        router.back();
+                    },
+                }]
+            );
+        } catch (error: any) {
+            console.error('Payment process error:', error);
+            Alert.alert('Payment Error', error.message || 'Something went wrong. Please try again.');
+        } finally {
+            setIsPaying(false);
+        }
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView keyboardShouldPersistTaps="handled">
+                <Text style={styles.intro}>
+                    {isPremium
+                        ? 'You already have premium. Choosing a new plan replaces it.'
+                        : `Approve up to ${freeSelectionLimit} videos for free, or pick a plan for more.`}
+                </Text>
+
+                {/* --- Plans --- */}
+                {plans.length === 0 && (
+                    <View style={styles.section}>
+                        {isLoadingPlans
+                            ? <ActivityIndicator style={styles.loader} />
+                            : (
+                                <TouchableOpacity style={styles.buttonRow} onPress={refreshPlans}>
+                                    <Text style={styles.buttonText}>Couldn't load plans. Try again</Text>
+                                    <Ionicons name="refresh" size={22} color="#007AFF" />
+                                </TouchableOpacity>
+                            )}
+                    </View>
+                )}
+
+                {plans.map(plan => (
+                    <TouchableOpacity
+                        key={plan.id}
+                        style={[styles.planCard, plan.id === selectedPlanId && styles.planCardSelected]}
+                        onPress={() => setSelectedPlanId(plan.id)}
+                        disabled={isPaying}
+                    >
+                        <View style={styles.planHeader}>
+                            <Text style={styles.planName}>{plan.name}</Text>
+                            {plan.id === entitlement?.planId && isPremium && <Text style={styles.currentBadge}>Current</Text>}
+                            <Ionicons
+                                name={plan.id === selectedPlanId ? 'radio-button-on' : 'radio-button-off'}
+                                size={22}
+                                color="#007AFF"
+                            />
+                        </View>
+                        <Text style={styles.planPrice}>{formatPlanPrice(plan)}</Text>
+                        <Text style={styles.planDetail}>{describeLimit(plan)}</Text>
+                        {plan.description && <Text style={styles.planDetail}>{plan.description}</Text>}
+                    </TouchableOpacity>
+                ))}
+
+                {/* --- Promo Code --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Promo Code</Text>
+                    <TextInput
+                        style={styles.input}
+                        placeholder="Optional"
+                        value={promoCode}
+                        onChangeText={setPromoCode}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        maxLength={32}
+                        editable={!isPaying}
+                    />
+                    <Text style={styles.hint}>The discount is applied on the payment screen.</Text>
+                </View>
+
+                {/* --- Buy Button --- */}
+                <TouchableOpacity
+                    style={[styles.buyButton, (!selectedPlan || isPaying) && styles.buyButtonDisabled]}
+                    onPress={() => runProtected(handlePurchase)}
+                    disabled={!selectedPlan || isPaying}
+                >
+                    {isPaying
+                        ? <ActivityIndicator color="#fff" />
+                        : <Text style={styles.buyButtonText}>{selectedPlan ? `Continue · ${formatPlanPrice(selectedPlan)}` : 'Choose a Plan'}</Text>}
+                </TouchableOpacity>
+            </ScrollView>
+
+            {/* Parent PIN check before the payment sheet (can be turned off in Settings) */}
+            <ParentGate {...gateProps} instruction="Enter your PIN to continue to payment." />
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    intro: { fontSize: 15, color: '#666', marginHorizontal: 20, marginTop: 15, marginBottom: 5 },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 10,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 10, marginTop: 5, color: '#333' },
+
+    planCard: {
+        backgroundColor: '#fff',
+        marginVertical: 8,
+        marginHorizontal: 15,
+        padding: 15,
+        borderRadius: 10,
+        borderWidth: 2,
+        borderColor: '#fff',
+    },
+    planCardSelected: { borderColor: '#007AFF' },
+    planHeader: { flexDirection: 'row', alignItems: 'center' },
+    planName: { flex: 1, fontSize: 18, fontWeight: '600', color: '#333' },
+    currentBadge: { fontSize: 13, fontWeight: '600', color: '#2E7D32', marginRight: 10 },
+    planPrice: { fontSize: 16, color: '#007AFF', marginTop: 4 },
+    planDetail: { fontSize: 14, color: '#666', marginTop: 4 },
+
+    input: {
+        width: '100%',
+        height: 48,
+        borderWidth: 1,
+        borderColor: '#ddd',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        marginBottom: 8,
+    },
+    hint: { fontSize: 13, color: '#999', marginBottom: 5 },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+    buttonText: { fontSize: 16, color: '#007AFF' },
+
+    buyButton: {
+        backgroundColor: '#007AFF',
+        marginHorizontal: 15,
+        marginVertical: 20,
+        paddingVertical: 15,
+        borderRadius: 10,
+        alignItems: 'center',
+    },
+    buyButtonDisabled: { backgroundColor: '#9cc7ff' },
+    buyButtonText: { color: '#fff', fontSize: 17, fontWeight: '600' },
+
+    loader: { marginVertical: 10 },
+});
+
+// Exporting screen as default
+export default PlansScreen;
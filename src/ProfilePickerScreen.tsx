@@ -0,0 +1,71 @@
+// src/ProfilePickerScreen.tsx
+
+// React core
+import React from 'react';
+// React Native components for UI
+import { FlatList, SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+// Import custom hook to access app-wide settings (profiles live there)
+import { useSettings } from './SettingsContext';
+// Age band labels shown under each profile
+import { AGE_BANDS } from './profiles';
+
+// "Who's watching?" screen shown before the For You feed
+const ProfilePickerScreen: React.FC = () => {
+    const { profiles, selectProfile } = useSettings(); // All profiles and the function to pick one
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <Text style={styles.title}>Who's watching?</Text>
+
+            {/* Grid of profile tiles */}
+            <FlatList
+                data={profiles}
+                keyExtractor={item => item.id}
+                numColumns={2}
+                contentContainerStyle={styles.grid}
+                renderItem={({ item }) => (
+                    <TouchableOpacity style={styles.tile} onPress={() => selectProfile(item.id)}>
+                        <View style={styles.avatarCircle}>
+                            <Text style={styles.avatar}>{item.avatar}</Text>
+                        </View>
+                        <Text style={styles.name} numberOfLines={1}>{item.name}</Text>
+                        <Text style={styles.ageBand}>
+                            {AGE_BANDS.find(b => b.value === item.ageBand)?.label ?? ''}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+                ListEmptyComponent={
+                    <Text style={styles.emptyText}>Ask a parent to add a profile in Settings.</Text>
+                }
+            />
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet for the picker
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f8f8f8', alignItems: 'center' },
+    title: { fontSize: 26, fontWeight: 'bold', color: '#333', marginTop: 40, marginBottom: 20 },
+    grid: { paddingHorizontal: 20, alignItems: 'center' },
+    tile: { width: 140, alignItems: 'center', margin: 12 },
+    avatarCircle: {
+        width: 100,
+        height: 100,
+        borderRadius: 50,
+        backgroundColor: '#FAE1EB', // Same light pink used elsewhere in the app
+        justifyContent: 'center',
+        alignItems: 'center',
+        elevation: 3,
+        shadowColor: '#000',
+        shadowOpacity: 0.15,
+        shadowRadius: 3,
+        shadowOffset: { width: 0, height: 2 },
+    },
+    avatar: { fontSize: 52 },
+    name: { fontSize: 17, fontWeight: '600', color: '#333', marginTop: 10 },
+    ageBand: { fontSize: 13, color: '#777', marginTop: 2 },
+    emptyText: { fontSize: 16, color: '#999', textAlign: 'center', marginTop: 40 },
+});
+
+// Export the screen so the tab page can render it
+export default ProfilePickerScreen;
@@ -0,0 +1,162 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import { ActivityIndicator, Alert, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+// Purchase ledger for the signed-in user
+import { PurchaseRecord, PurchaseStatus, useEntitlement } from './EntitlementContext';
+
+// Badge wording and colours for each purchase status
+const STATUS_DETAILS: { [status in PurchaseStatus]: { label: string; color: string; background: string } } = {
+    pending: { label: 'Pending', color: '#B26A00', background: '#FFF4E0' },
+    confirmed: { label: 'Confirmed', color: '#2E7D32', background: '#E8F5E9' },
+    'confirm-failed': { label: 'Not confirmed', color: '#DC3545', background: '#FDECEA' },
+    rejected: { label: 'Rejected', color: '#757575', background: '#EEEEEE' },
+};
+
+// Readable names for what was bought
+const PURCHASE_NAMES: { [purchaseType: string]: string } = {
+    unlimited_video_selection: 'Kid Tok Premium',
+};
+
+// Formats an amount in cents as "$4.99"
+const formatAmount = (amount: number | null): string =>
+    amount === null ? '—' : `$${(amount / 100).toFixed(2)}`;
+
+// Formats an ISO timestamp as "14 Oct 2026, 7:05 PM"
+const formatDate = (iso: string): string =>
+    new Date(iso).toLocaleString(undefined, {
+        day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit',
+    });
+
+// Parent screen listing every purchase made on this account, with receipt details
+const PurchasesScreen: React.FC = () => {
+    const { purchases, retryConfirmation } = useEntitlement();
+    const [retryingId, setRetryingId] = useState<string | null>(null); // Purchase being confirmed right now
+
+    // Asks the backend to confirm one purchase again
+    const handleRetry = async (record: PurchaseRecord): Promise<void> => {
+        setRetryingId(record.paymentIntentId);
+        try {
+            const status = await retryConfirmation(record.paymentIntentId);
+            if (status === 'rejected') {
+                Alert.alert('Payment Rejected', 'The payment service did not accept this payment, so it does not unlock premium.');
+            } else if (status !== 'confirmed') {
+                Alert.alert('Still Not Confirmed', 'We could not reach the payment service. We will keep trying in the background.');
+            }
+        } catch (e: any) {
+            Alert.alert('Error', e.message);
+        } finally {
+            setRetryingId(null);
+        }
+    };
+
+    // One receipt detail line
+    const renderDetail = (label: string, value: string) => (
+        <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{label}</Text>
+            <Text style={styles.detailValue} selectable>{value}</Text>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {purchases.length === 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.emptyText}>No purchases yet.</Text>
+                    </View>
+                )}
+
+                {/* One card per purchase, newest first */}
+                {purchases.map(record => {
+                    const status = STATUS_DETAILS[record.status];
+                    return (
+                        <View key={record.paymentIntentId} style={styles.section}>
+                            <View style={styles.headerRow}>
+                                <Text style={styles.purchaseTitle}>
+                                    {record.plan?.name ?? PURCHASE_NAMES[record.purchaseType] ?? record.purchaseType}
+                                </Text>
+                                <View style={[styles.badge, { backgroundColor: status.background }]}>
+                                    <Text style={[styles.badgeText, { color: status.color }]}>{status.label}</Text>
+                                </View>
+                            </View>
+
+                            {renderDetail('Amount', formatAmount(record.amount))}
+                            {record.promoCode && renderDetail('Promo code', record.promoCode)}
+                            {renderDetail('Date', formatDate(record.createdAt))}
+                            {renderDetail('Receipt sent to', record.receiptEmail || '—')}
+                            {renderDetail('Payment ID', record.paymentIntentId)}
+                            {record.confirmedAt && renderDetail('Confirmed', formatDate(record.confirmedAt))}
+                            {record.expiresAt && renderDetail('Paid until', formatDate(record.expiresAt))}
+                            {record.status !== 'confirmed' && record.lastError && renderDetail('Last error', record.lastError)}
+
+                            {/* Unconfirmed purchases can be retried by hand (rejected ones are final) */}
+                            {(record.status === 'pending' || record.status === 'confirm-failed') && (
+                                <TouchableOpacity
+                                    style={styles.buttonRow}
+                                    onPress={() => handleRetry(record)}
+                                    disabled={retryingId !== null}
+                                >
+                                    <Text style={styles.buttonText}>Retry Confirmation</Text>
+                                    {retryingId === record.paymentIntentId
+                                        ? <ActivityIndicator color="#007AFF" />
+                                        : <Ionicons name="refresh" size={22} color="#007AFF" />}
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 10,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    headerRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 6,
+        marginTop: 5,
+    },
+    purchaseTitle: { flexShrink: 1, fontSize: 18, fontWeight: '600', color: '#333', marginRight: 10 },
+    badge: { paddingVertical: 3, paddingHorizontal: 10, borderRadius: 12 },
+    badgeText: { fontSize: 13, fontWeight: '600' },
+
+    detailRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    detailLabel: { fontSize: 15, color: '#333', marginRight: 10 },
+    detailValue: { flexShrink: 1, fontSize: 15, color: '#666', textAlign: 'right' },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+    buttonText: { fontSize: 16, color: '#007AFF' },
+
+    emptyText: { fontSize: 15, color: '#999', paddingVertical: 10 },
+});
+
+// Exporting screen as default
+export default PurchasesScreen;
@@ -0,0 +1,44 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core
+import React from 'react';
+// React Native components for UI
+import { ActivityIndicator, SafeAreaView, StyleSheet, Text } from 'react-native';
+// Active window type and time formatting
+import { ActiveBlockedWindow, formatTimeOfDay } from './schedule';
+
+// Props for the schedule lock screen
+interface ScheduleLockScreenProps {
+    active: ActiveBlockedWindow | null; // The window that is locking the feed right now (null while the schedule loads)
+}
+
+// Screen shown in place of the feed during a blocked window (bedtime, school hours...)
+const ScheduleLockScreen: React.FC<ScheduleLockScreenProps> = ({ active }) => {
+    if (!active) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ActivityIndicator size="large" color="#6200ee" />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <Ionicons name="bed" size={64} color="#6200ee" />
+            <Text style={styles.title}>{active.window.label || 'Break time'}</Text>
+            <Text style={styles.message}>
+                Videos are resting right now. See you again at {formatTimeOfDay(active.window.endMinutes)}!
+            </Text>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet for the lock screen
+const styles = StyleSheet.create({
+    container: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 30, backgroundColor: '#f3eefc' },
+    title: { fontSize: 26, fontWeight: 'bold', color: '#333', marginTop: 20, marginBottom: 10, textAlign: 'center' },
+    message: { fontSize: 16, color: '#555', textAlign: 'center' },
+});
+
+// Export the component so the tab page can show it
+export default ScheduleLockScreen;
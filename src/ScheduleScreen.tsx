@@ -0,0 +1,296 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// Used to generate IDs for new windows
+import { randomUUID } from 'expo-crypto';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    Alert, Modal, SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+// Window type and time formatting
+import { BlockedWindow, deviceTimeZone, formatTimeOfDay } from './schedule';
+// Weekday names for the day toggles
+import { WEEKDAY_NAMES } from './screenTime';
+
+// Step used by the time -/+ buttons, in minutes
+const TIME_STEP_MINUTES = 15;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Parent screen for editing each child's weekly lock windows (bedtime, school hours...)
+const ScheduleScreen: React.FC = () => {
+    const { profiles, activeProfile, profileSettings, saveBlockedWindows } = useSettings();
+
+    // Profile being edited (defaults to whoever is watching now)
+    const [profileId, setProfileId] = useState<string | undefined>(activeProfile?.id ?? profiles[0]?.id);
+    const windows = (profileId && profileSettings[profileId]?.blockedWindows) || [];
+
+    // Editor modal state
+    const [editorVisible, setEditorVisible] = useState<boolean>(false);
+    const [draft, setDraft] = useState<BlockedWindow | null>(null);
+
+    // Opens the editor for a new window (bedtime on school nights by default) or an existing one
+    const openEditor = (window?: BlockedWindow) => {
+        setDraft(window ?? {
+            id: randomUUID(),
+            label: 'Bedtime',
+            days: [0, 1, 2, 3, 4],
+            startMinutes: 19 * 60 + 30,
+            endMinutes: 7 * 60,
+            timeZone: deviceTimeZone(), // Times mean this zone's clock, even if the device's zone is changed later
+        });
+        setEditorVisible(true);
+    };
+
+    // Moves a time by a number of minutes, wrapping around midnight
+    const shiftTime = (minutes: number, delta: number): number => (minutes + delta + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+    // Saves the draft into the profile's list
+    const handleSave = async (): Promise<void> => {
+        if (!draft) return;
+        if (draft.days.length === 0) {
+            return Alert.alert('No Days Selected', 'Please pick at least one day.');
+        }
+        if (draft.startMinutes === draft.endMinutes) {
+            return Alert.alert('Invalid Times', 'Start and end time cannot be the same.');
+        }
+
+        const exists = windows.some(w => w.id === draft.id);
+        const nextWindows = exists ? windows.map(w => (w.id === draft.id ? draft : w)) : [...windows, draft];
+        await saveBlockedWindows(nextWindows, profileId);
+        setEditorVisible(false);
+    };
+
+    // Removes a window from the profile's list
+    const handleRemove = (window: BlockedWindow) => {
+        Alert.alert('Delete Window?', `Remove "${window.label}" from the schedule?`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete', style: 'destructive',
+                onPress: () => saveBlockedWindows(windows.filter(w => w.id !== window.id), profileId),
+            },
+        ]);
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {/* Profile chooser, only needed with more than one child */}
+                {profiles.length > 1 && (
+                    <View style={styles.profileRow}>
+                        {profiles.map(profile => (
+                            <TouchableOpacity
+                                key={profile.id}
+                                style={[styles.chip, profile.id === profileId && styles.chipSelected]}
+                                onPress={() => setProfileId(profile.id)}
+                            >
+                                <Text style={styles.chipText}>{profile.avatar} {profile.name}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Locked Times</Text>
+                    <Text style={styles.settingDescription}>
+                        Videos are locked during these times, even if the app is reopened.
+                    </Text>
+
+                    {/* Existing windows */}
+                    {windows.map(window => (
+                        <View key={window.id} style={styles.windowRow}>
+                            <View style={styles.windowInfo}>
+                                <Text style={styles.windowLabel}>{window.label}</Text>
+                                <Text style={styles.settingDescription}>
+                                    {formatTimeOfDay(window.startMinutes)} – {formatTimeOfDay(window.endMinutes)} ·{' '}
+                                    {window.days.map(d => WEEKDAY_NAMES[d].slice(0, 3)).join(', ')}
+                                </Text>
+                            </View>
+                            <TouchableOpacity onPress={() => openEditor(window)} style={styles.iconButton}>
+                                <Ionicons name="create-outline" size={22} color="#007AFF" />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => handleRemove(window)} style={styles.iconButton}>
+                                <Ionicons name="trash-outline" size={22} color="#DC3545" />
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+
+                    {/* Add a new window */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => openEditor()} disabled={!profileId}>
+                        <Text style={styles.buttonText}>Add Locked Time</Text>
+                        <Ionicons name="add-circle-outline" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+
+            {/* --- Modal for adding or editing a window --- */}
+            <Modal
+                visible={editorVisible}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={() => setEditorVisible(false)}
+            >
+                {draft && (
+                    <View style={styles.modalContainer}>
+                        <View style={styles.modalContent}>
+                            <Text style={styles.modalTitle}>Locked Time</Text>
+
+                            {/* Name of the window */}
+                            <TextInput
+                                style={styles.input}
+                                placeholder="Name (e.g. Bedtime, School)"
+                                value={draft.label}
+                                onChangeText={label => setDraft({ ...draft, label })}
+                                maxLength={24}
+                            />
+
+                            {/* Start and end time steppers */}
+                            {(['startMinutes', 'endMinutes'] as const).map(field => (
+                                <View key={field} style={styles.timeRow}>
+                                    <Text style={styles.timeLabel}>{field === 'startMinutes' ? 'From' : 'Until'}</Text>
+                                    <TouchableOpacity onPress={() => setDraft({ ...draft, [field]: shiftTime(draft[field], -TIME_STEP_MINUTES) })}>
+                                        <Ionicons name="remove-circle-outline" size={28} color="#007AFF" />
+                                    </TouchableOpacity>
+                                    <Text style={styles.timeValue}>{formatTimeOfDay(draft[field])}</Text>
+                                    <TouchableOpacity onPress={() => setDraft({ ...draft, [field]: shiftTime(draft[field], TIME_STEP_MINUTES) })}>
+                                        <Ionicons name="add-circle-outline" size={28} color="#007AFF" />
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+
+                            {/* Day toggles */}
+                            <View style={styles.dayRow}>
+                                {WEEKDAY_NAMES.map((day, dayIndex) => {
+                                    const selected = draft.days.includes(dayIndex);
+                                    return (
+                                        <TouchableOpacity
+                                            key={day}
+                                            style={[styles.chip, selected && styles.chipSelected]}
+                                            onPress={() => setDraft({
+                                                ...draft,
+                                                days: selected
+                                                    ? draft.days.filter(d => d !== dayIndex)
+                                                    : [...draft.days, dayIndex].sort((a, b) => a - b),
+                                            })}
+                                        >
+                                            <Text style={styles.chipText}>{day.slice(0, 3)}</Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            {/* Save and cancel buttons */}
+                            <TouchableOpacity style={styles.modalButton} onPress={handleSave}>
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[styles.modalButton, styles.cancelButton]}
+                                onPress={() => setEditorVisible(false)}
+                            >
+                                <Text style={styles.cancelButtonText}>Cancel</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+            </Modal>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    profileRow: { flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 15, paddingTop: 15 },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 6,
+        marginBottom: 6,
+    },
+    chipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    chipText: { fontSize: 14, color: '#333' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 15,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 8, marginTop: 5, color: '#333' },
+    settingDescription: { fontSize: 14, color: '#666' },
+
+    windowRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    windowInfo: { flex: 1 },
+    windowLabel: { fontSize: 16, fontWeight: '500', marginBottom: 2 },
+    iconButton: { padding: 8 },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+    buttonText: { fontSize: 16, color: '#007AFF' },
+
+    modalContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalContent: {
+        width: '90%',
+        backgroundColor: '#fff',
+        borderRadius: 10,
+        padding: 20,
+        alignItems: 'center',
+    },
+    modalTitle: { fontSize: 20, fontWeight: 'bold', marginBottom: 15 },
+
+    input: {
+        width: '100%',
+        height: 48,
+        borderWidth: 1,
+        borderColor: '#ddd',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        marginBottom: 15,
+    },
+
+    timeRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 10 },
+    timeLabel: { width: 50, fontSize: 16, color: '#333' },
+    timeValue: { minWidth: 90, textAlign: 'center', fontSize: 16, fontWeight: '500' },
+    dayRow: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', marginVertical: 10 },
+
+    modalButton: {
+        width: '100%',
+        paddingVertical: 12,
+        marginVertical: 5,
+        borderRadius: 5,
+        backgroundColor: '#f8f9fa',
+        alignItems: 'center',
+    },
+    modalButtonText: { fontSize: 16, color: '#007AFF', fontWeight: '500' },
+    cancelButton: { backgroundColor: '#f0f0f0' },
+    cancelButtonText: { fontSize: 16, color: '#555' },
+});
+
+// Exporting screen as default
+export default ScheduleScreen;
@@ -0,0 +1,133 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import { SafeAreaView, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+// Weekday names used for the rows
+import { WEEKDAY_NAMES } from './screenTime';
+
+// Step used by the -/+ buttons, and the allowance a day starts at when a limit is switched on
+const STEP_MINUTES = 15;
+const DEFAULT_LIMIT_MINUTES = 60;
+
+// Parent screen for setting each child's daily watch-time allowance per weekday
+const ScreenTimeScreen: React.FC = () => {
+    const { profiles, activeProfile, profileSettings, setDailyLimit } = useSettings();
+
+    // Profile being edited (defaults to whoever is watching now)
+    const [profileId, setProfileId] = useState<string | undefined>(activeProfile?.id ?? profiles[0]?.id);
+    const limits = (profileId && profileSettings[profileId]?.dailyLimits) || [];
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {/* Profile chooser, only needed with more than one child */}
+                {profiles.length > 1 && (
+                    <View style={styles.profileRow}>
+                        {profiles.map(profile => (
+                            <TouchableOpacity
+                                key={profile.id}
+                                style={[styles.profileChip, profile.id === profileId && styles.profileChipSelected]}
+                                onPress={() => setProfileId(profile.id)}
+                            >
+                                <Text style={styles.profileChipText}>{profile.avatar} {profile.name}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Daily Allowance</Text>
+                    <Text style={styles.settingDescription}>
+                        When the allowance runs out, videos stop and only the parent PIN can add more time.
+                    </Text>
+
+                    {/* One row per weekday */}
+                    {WEEKDAY_NAMES.map((day, dayIndex) => {
+                        const limit = limits[dayIndex] ?? null;
+                        return (
+                            <View key={day} style={styles.dayRow}>
+                                <Text style={styles.dayName}>{day}</Text>
+
+                                {limit === null ? (
+                                    <Text style={styles.noLimitText}>No limit</Text>
+                                ) : (
+                                    <View style={styles.stepper}>
+                                        <TouchableOpacity
+                                            onPress={() => setDailyLimit(dayIndex, Math.max(0, limit - STEP_MINUTES), profileId)}
+                                        >
+                                            <Ionicons name="remove-circle-outline" size={28} color="#007AFF" />
+                                        </TouchableOpacity>
+                                        <Text style={styles.limitText}>{limit} min</Text>
+                                        <TouchableOpacity
+                                            onPress={() => setDailyLimit(dayIndex, limit + STEP_MINUTES, profileId)}
+                                        >
+                                            <Ionicons name="add-circle-outline" size={28} color="#007AFF" />
+                                        </TouchableOpacity>
+                                    </View>
+                                )}
+
+                                {/* Switch turns the limit for this day on or off */}
+                                <Switch
+                                    value={limit !== null}
+                                    onValueChange={on => setDailyLimit(dayIndex, on ? DEFAULT_LIMIT_MINUTES : null, profileId)}
+                                    disabled={!profileId}
+                                />
+                            </View>
+                        );
+                    })}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    profileRow: { flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 15, paddingTop: 15 },
+    profileChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    profileChipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    profileChipText: { fontSize: 15, color: '#333' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 15,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 8, marginTop: 5, color: '#333' },
+    settingDescription: { fontSize: 14, color: '#666', marginBottom: 10 },
+
+    dayRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+
+    dayName: { flex: 1, fontSize: 16, fontWeight: '500' },
+    noLimitText: { fontSize: 15, color: '#999', marginRight: 12 },
+    stepper: { flexDirection: 'row', alignItems: 'center', marginRight: 12 },
+    limitText: { fontSize: 15, color: '#333', minWidth: 60, textAlign: 'center' },
+});
+
+// Exporting screen as default
+export default ScreenTimeScreen;
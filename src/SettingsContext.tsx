@@ -1,29 +1,200 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist data across app sessions
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { randomUUID } from 'expo-crypto'; // Used to generate profile IDs
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+// Log of parent actions shown in Settings
+import { recordAuditEvent, setAuditParent } from './auditLog';
+// Helpers for salting and hashing the parent PIN before it is stored
+import { hashPin, parsePinRecord, PinHashRecord, serializePinRecord, verifyPinHash } from './pinHash';
+// Child profile types and helpers for namespacing per-profile keys
+import {
+    ChildProfile, DEFAULT_PROFILE_SETTINGS, findProfileKeys, PROFILE_AVATARS, profileKey, ProfileSettings, VideoRequest
+} from './profiles';
+// Blocked window type for the bedtime / school-hours schedule, and the clock that ignores device time changes
+import { BlockedWindow, trustedNow, withTimeZones } from './schedule';
+
+// Number of wrong PINs allowed before the PIN entry gets locked
+export const MAX_PIN_ATTEMPTS = 3;
+
+// How long each successive lockout lasts (30 s, 5 min, 1 h, then 24 h for every lockout after that)
+const LOCKOUT_SCHEDULE_MS = [30 * 1000, 5 * 60 * 1000, 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+
+// Failed attempt and lockout state, persisted under 'pinLockout' so it survives restarts
+interface PinLockoutState {
+    failedAttempts: number; // Wrong PINs entered since the last lockout or success
+    lockoutCount: number; // How many lockouts in a row have happened (picks the backoff step)
+    lockedUntil: number | null; // Timestamp (ms) until which PIN entry is blocked
+}
+
+const INITIAL_LOCKOUT: PinLockoutState = { failedAttempts: 0, lockoutCount: 0, lockedUntil: null };
+
+// How the video feed plays, chosen by the parent and persisted under 'playerSettings'
+export interface PlayerSettings {
+    pagerMode: boolean; // Full-screen vertical pager (one video per page, autoplay) instead of the card list
+    autoAdvance: boolean; // In the pager, scroll on to the next video when one finishes
+}
+
+const DEFAULT_PLAYER_SETTINGS: PlayerSettings = { pagerMode: false, autoAdvance: true };
+
+// How strong a parental check is: 'low' = hold gesture, 'medium' = grown-up challenge, 'high' = parent PIN.
+// Every protected action declares the strength it needs.
+export type GateStrength = 'low' | 'medium' | 'high';
+
+// Order used to compare strengths
+const GATE_STRENGTH_RANK: { [strength in GateStrength]: number } = { low: 0, medium: 1, high: 2 };
+
+// True when a check of strength `have` is good enough for an action that needs `need`
+export const meetsStrength = (have: GateStrength, need: GateStrength): boolean =>
+    GATE_STRENGTH_RANK[have] >= GATE_STRENGTH_RANK[need];
+
+// The parental checks the app can show (see parentalGates.ts)
+export type ParentalGateKind = 'pin' | 'challenge' | 'hold';
+
+// A running parent session and the strength of the check that opened it
+interface ParentSession {
+    endsAt: number; // When the session runs out (ms)
+    strength: GateStrength; // Strongest check passed during the session
+    parentName: string | null; // Parent who said who they are after the check (null if not asked)
+}
+
+// Which actions need the parent PIN, persisted under 'securitySettings'
+export interface SecuritySettings {
+    requirePinForPurchases: boolean; // Ask for the parent PIN before any payment screen opens
+    parentSessionMinutes: number; // How long parent screens stay unlocked without being touched
+    shuffleKeypad: boolean; // Mix up the PIN keypad digits every time it is shown
+    keypadHaptics: boolean; // Short vibration on each keypad press
+    parentalGate: ParentalGateKind; // Check the parent prefers; stronger actions still fall back to the PIN
+    parentNames: string[]; // Parents sharing this device; with two or more, a passed check asks who it is for the activity log
+}
+
+const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+    requirePinForPurchases: true,
+    parentSessionMinutes: 5,
+    shuffleKeypad: false,
+    keypadHaptics: false,
+    parentalGate: 'pin',
+    parentNames: [],
+};
+
+// A parent passcode is either a digits-only PIN or letters and numbers
+export type PasscodeKind = 'numeric' | 'alphanumeric';
+
+// Shape of the saved parent passcode, persisted under 'passcodePolicy' next to the hash.
+// Every PIN screen renders and validates from this, so they all agree.
+export interface PasscodePolicy {
+    kind: PasscodeKind;
+    length: number | null; // Digits in the PIN (null for an alphanumeric passcode, whose length isn't shown)
+}
+
+// PINs made before the policy existed were always 4 digits
+const DEFAULT_PASSCODE_POLICY: PasscodePolicy = { kind: 'numeric', length: 4 };
+
+// Allowed sizes for a new passcode
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const MIN_PASSCODE_LENGTH = 6;
+export const MAX_PASSCODE_LENGTH = 32;
+
+// Checks a newly chosen passcode; returns why it can't be used, or null when it is fine
+export const validateNewPasscode = (passcode: string, kind: PasscodeKind): string | null => {
+    if (kind === 'numeric') {
+        if (!/^\d+$/.test(passcode)) return 'PIN can only contain digits.';
+        if (passcode.length < MIN_PIN_LENGTH || passcode.length > MAX_PIN_LENGTH) {
+            return `PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits.`;
+        }
+        return null;
+    }
+    if (passcode.length < MIN_PASSCODE_LENGTH) return `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters.`;
+    if (passcode.length > MAX_PASSCODE_LENGTH) return `Passcode can be at most ${MAX_PASSCODE_LENGTH} characters.`;
+    if (!/[a-z]/i.test(passcode) || !/\d/.test(passcode)) return 'Passcode needs both letters and numbers.';
+    return null;
+};
+
+// True when an entered passcode has the saved shape and is worth checking against the hash
+export const isCompletePasscode = (passcode: string, policy: PasscodePolicy): boolean =>
+    policy.kind === 'numeric' ? passcode.length === policy.length : passcode.length > 0;
+
+// Session lengths offered in Settings (minutes)
+export const PARENT_SESSION_OPTIONS = [1, 5, 10, 15];
+
+// Touches closer together than this don't push the session end back again (saves re-renders)
+const SESSION_EXTEND_THROTTLE_MS = 5000;
+
+// Creates the profile used when none exist yet (first launch or after a reset)
+const createDefaultProfile = (): ChildProfile => ({
+    id: randomUUID(),
+    name: 'My Kid',
+    avatar: PROFILE_AVATARS[0],
+    ageBand: '5to7',
+});
 
 // This interface defines the types of values and functions shared via context
 interface SettingsContextType {
     isPinSet: boolean; // Indicates whether a parent PIN has been created
-    restrictedMode: boolean; // Indicates whether restricted mode is ON or OFF
+    restrictedMode: boolean; // Indicates whether restricted mode is ON or OFF for the active profile
     isLoading: boolean; // Indicates whether settings are still being loaded from AsyncStorage
-    selectedVideos: string[]; // List of selected video IDs for personalized content
-    savePin: (pin: string) => Promise<boolean>; // Saves a new PIN to AsyncStorage
-    verifyPin: (pin: string) => boolean; // Verifies if entered PIN matches stored PIN
-    toggleVideoSelectionInContext: (videoId: string) => Promise<void>; // Adds/removes a video from the selected list
-    toggleRestrictedMode: () => Promise<void>; // Toggles restricted mode ON/OFF and persists it
+    selectedVideos: string[]; // List of approved video IDs for the active profile
+    profiles: ChildProfile[]; // All child profiles on this device
+    activeProfile: ChildProfile | null; // Profile picked for this session (null until the picker is used)
+    profileSettings: { [profileId: string]: ProfileSettings }; // Approved list and restrictions for every profile
+    selectProfile: (profileId: string | null) => void; // Switches the active profile (null shows the picker)
+    addProfile: (profile: Omit<ChildProfile, 'id'>) => Promise<ChildProfile>; // Creates a new child profile
+    updateProfile: (profileId: string, changes: Partial<Omit<ChildProfile, 'id'>>) => Promise<void>; // Edits a profile
+    removeProfile: (profileId: string) => Promise<void>; // Deletes a profile and all of its stored settings
+    passcodePolicy: PasscodePolicy; // Whether the saved passcode is a PIN (and how many digits) or alphanumeric
+    savePin: (pin: string, kind?: PasscodeKind) => Promise<boolean>; // Hashes a new PIN (numeric by default) and saves it with its policy
+    verifyPin: (pin: string) => Promise<boolean>; // Verifies if entered PIN matches the stored hash
+    pinLockedUntil: number | null; // Trusted-clock timestamp until which PIN entry is locked, or null if not locked
+    remainingPinAttempts: number; // Wrong PINs still allowed before the next lockout
+    isParentSessionActive: boolean; // True for a while after the right PIN, so parent screens don't ask again
+    hasParentSession: (strength: GateStrength) => boolean; // True when the running session covers actions of this strength
+    parentSessionName: string | null; // Parent who opened the running session, if known
+    startParentSession: (strength: GateStrength, parentName?: string) => void; // Opens a session after a passed check (hold gestures don't open one)
+    extendParentSession: () => void; // Pushes the session end back (call on parent activity)
+    endParentSession: () => void; // Locks parent screens again straight away
+    toggleVideoSelectionInContext: (videoId: string, profileId?: string) => Promise<void>; // Adds/removes a video from a profile's approved list
+    setSelectedVideos: (videoIds: string[], profileId?: string) => Promise<void>; // Replaces a profile's whole approved list
+    toggleRestrictedMode: (profileId?: string) => Promise<void>; // Toggles a profile's restricted mode ON/OFF and persists it
+    dailyLimits: (number | null)[]; // Watch-time allowance in minutes per weekday for the active profile
+    setDailyLimit: (dayIndex: number, minutes: number | null, profileId?: string) => Promise<void>; // Changes one weekday's allowance
+    blockedWindows: BlockedWindow[]; // Weekly lock windows (bedtime, school hours) for the active profile
+    saveBlockedWindows: (windows: BlockedWindow[], profileId?: string) => Promise<void>; // Replaces a profile's lock windows
+    videoRequests: VideoRequest[]; // Videos the active profile has asked a parent to approve
+    requestVideo: (request: Omit<VideoRequest, 'requestedAt'>, profileId?: string) => Promise<void>; // Adds a video to a profile's pending requests
+    removeVideoRequest: (videoId: string, profileId?: string) => Promise<void>; // Takes a video off a profile's pending requests
+    playerSettings: PlayerSettings; // Feed layout and autoplay options (same for every profile)
+    updatePlayerSettings: (changes: Partial<PlayerSettings>) => Promise<void>; // Changes and persists player options
+    securitySettings: SecuritySettings; // Which actions need the parent PIN
+    updateSecuritySettings: (changes: Partial<SecuritySettings>) => Promise<void>; // Changes and persists PIN requirements
     clearSettings: () => Promise<void>; // Clears all locally stored settings
 }
 
 // Create the context with an initial undefined value (used with custom hook below)
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
+// Reads a profile's saved windows; windows saved before time zones were stored get the device's zone (saved once)
+const loadBlockedWindows = async (profileId: string, stored: BlockedWindow[]): Promise<BlockedWindow[]> => {
+    const windows = withTimeZones(stored);
+    if (windows !== stored) await AsyncStorage.setItem(profileKey(profileId, 'blockedWindows'), JSON.stringify(windows));
+    return windows;
+};
+
 // The provider wraps the app and shares the state and logic defined here
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [isLoading, setIsLoading] = useState(true); // Tracks if settings are still loading from AsyncStorage
     const [isPinSet, setIsPinSet] = useState(false); // True if a PIN has been set and saved
-    const [pin, setPin] = useState<string | null>(null); // Stores the actual saved PIN (not encrypted)
-    const [restrictedMode, setRestrictedMode] = useState(false); // Whether restricted mode is active
-    const [selectedVideos, setSelectedVideos] = useState<string[]>([]); // List of selected videos for "For You" page
+    const [pinRecord, setPinRecord] = useState<PinHashRecord | null>(null); // Salted hash of the saved PIN (never the PIN itself)
+    const [passcodePolicy, setPasscodePolicy] = useState<PasscodePolicy>(DEFAULT_PASSCODE_POLICY); // Shape of the saved PIN
+    const [profiles, setProfiles] = useState<ChildProfile[]>([]); // All child profiles
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null); // Profile chosen in the picker
+    const [profileSettings, setProfileSettings] = useState<{ [profileId: string]: ProfileSettings }>({}); // Per-profile settings
+    const profileSettingsRef = useRef<{ [profileId: string]: ProfileSettings }>({}); // Latest per-profile settings for back-to-back updates
+    const [pinLockout, setPinLockout] = useState<PinLockoutState>(INITIAL_LOCKOUT); // Failed attempts and lockout deadline
+    // Same lockout state, readable straight away, so quick repeated PIN checks each count on top of the last one
+    const pinLockoutRef = useRef<PinLockoutState>(INITIAL_LOCKOUT);
+    const [playerSettings, setPlayerSettings] = useState<PlayerSettings>(DEFAULT_PLAYER_SETTINGS); // Feed player options
+    const [securitySettings, setSecuritySettings] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS); // PIN requirements
+    const [parentSession, setParentSession] = useState<ParentSession | null>(null); // Running parent session, if any
 
     // This effect runs once to load all saved settings when the app starts
     useEffect(() => {
@@ -31,15 +202,69 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
             try {
                 const storedPin = await AsyncStorage.getItem('parentPin');
                 if (storedPin) {
-                    setPin(storedPin);
+                    let record = parsePinRecord(storedPin);
+                    if (!record) {
+                        // Legacy plain-text PIN: upgrade it to a hash record in place
+                        record = await hashPin(storedPin);
+                        await AsyncStorage.setItem('parentPin', serializePinRecord(record));
+                    }
+                    setPinRecord(record);
                     setIsPinSet(true);
+
+                    const storedPolicy = await AsyncStorage.getItem('passcodePolicy');
+                    if (storedPolicy) setPasscodePolicy({ ...DEFAULT_PASSCODE_POLICY, ...JSON.parse(storedPolicy) });
                 }
 
-                const storedMode = await AsyncStorage.getItem('restrictedMode');
-                setRestrictedMode(storedMode === 'true'); // Convert string to boolean
+                const storedProfiles = await AsyncStorage.getItem('childProfiles');
+                let loadedProfiles: ChildProfile[] = storedProfiles ? JSON.parse(storedProfiles) : [];
 
-                const storedVideos = await AsyncStorage.getItem('selectedVideos');
-                setSelectedVideos(storedVideos ? JSON.parse(storedVideos) : []);
+                if (loadedProfiles.length === 0) {
+                    // First launch with profiles: move the old global settings into a default profile
+                    const defaultProfile = createDefaultProfile();
+                    const legacyMode = await AsyncStorage.getItem('restrictedMode');
+                    const legacyVideos = await AsyncStorage.getItem('selectedVideos');
+                    await AsyncStorage.multiSet([
+                        [profileKey(defaultProfile.id, 'restrictedMode'), legacyMode ?? 'false'],
+                        [profileKey(defaultProfile.id, 'selectedVideos'), legacyVideos ?? '[]'],
+                        ['childProfiles', JSON.stringify([defaultProfile])],
+                    ]);
+                    await AsyncStorage.multiRemove(['restrictedMode', 'selectedVideos']);
+                    loadedProfiles = [defaultProfile];
+                }
+
+                // Load each profile's namespaced settings
+                const loadedSettings: { [profileId: string]: ProfileSettings } = {};
+                for (const profile of loadedProfiles) {
+                    const storedMode = await AsyncStorage.getItem(profileKey(profile.id, 'restrictedMode'));
+                    const storedVideos = await AsyncStorage.getItem(profileKey(profile.id, 'selectedVideos'));
+                    const storedLimits = await AsyncStorage.getItem(profileKey(profile.id, 'dailyLimits'));
+                    const storedWindows = await AsyncStorage.getItem(profileKey(profile.id, 'blockedWindows'));
+                    const storedRequests = await AsyncStorage.getItem(profileKey(profile.id, 'videoRequests'));
+                    loadedSettings[profile.id] = {
+                        restrictedMode: storedMode === 'true', // Convert string to boolean
+                        selectedVideos: storedVideos ? JSON.parse(storedVideos) : [],
+                        dailyLimits: storedLimits ? JSON.parse(storedLimits) : DEFAULT_PROFILE_SETTINGS.dailyLimits,
+                        blockedWindows: storedWindows ? await loadBlockedWindows(profile.id, JSON.parse(storedWindows)) : [],
+                        videoRequests: storedRequests ? JSON.parse(storedRequests) : [],
+                    };
+                }
+                setProfiles(loadedProfiles);
+                commitProfileSettings(loadedSettings);
+
+                // With a single profile there is nothing to pick, so use it straight away
+                if (loadedProfiles.length === 1) setActiveProfileId(loadedProfiles[0].id);
+
+                const storedLockout = await AsyncStorage.getItem('pinLockout');
+                if (storedLockout) {
+                    pinLockoutRef.current = { ...INITIAL_LOCKOUT, ...JSON.parse(storedLockout) };
+                    setPinLockout(pinLockoutRef.current);
+                }
+
+                const storedPlayer = await AsyncStorage.getItem('playerSettings');
+                if (storedPlayer) setPlayerSettings({ ...DEFAULT_PLAYER_SETTINGS, ...JSON.parse(storedPlayer) });
+
+                const storedSecurity = await AsyncStorage.getItem('securitySettings');
+                if (storedSecurity) setSecuritySettings({ ...DEFAULT_SECURITY_SETTINGS, ...JSON.parse(storedSecurity) });
             } catch (e) {
                 console.error("Failed to load settings", e);
             } finally {
@@ -50,57 +275,341 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         loadSettings();
     }, []);
 
-    // Saves a new PIN to AsyncStorage and updates state
-    const savePin = async (newPin: string): Promise<boolean> => {
+    // Starts (or restarts) the parent session after a check of the given strength, keeping the strongest one passed.
+    // A hold gesture only covers the action it was shown for, so it never opens a session.
+    // The parent's name is the one picked after the check; with a single parent set up it is that parent.
+    const startParentSession = (strength: GateStrength, parentName?: string) => {
+        if (!meetsStrength(strength, 'medium')) return;
+        const { parentNames } = securitySettings;
+        const name = parentName ?? (parentNames.length === 1 ? parentNames[0] : parentSession?.parentName ?? null);
+        setAuditParent(name); // Set straight away, the protected action runs before the next render
+        setParentSession(prev => ({
+            endsAt: Date.now() + securitySettings.parentSessionMinutes * 60 * 1000,
+            strength: prev && meetsStrength(prev.strength, strength) ? prev.strength : strength,
+            parentName: name,
+        }));
+    };
+
+    // Pushes the session end back while a parent is using protected screens (does nothing once it has ended)
+    const extendParentSession = useCallback(() => {
+        setParentSession(prev => {
+            if (prev === null || prev.endsAt <= Date.now()) return prev;
+            const endsAt = Date.now() + securitySettings.parentSessionMinutes * 60 * 1000;
+            return endsAt - prev.endsAt < SESSION_EXTEND_THROTTLE_MS ? prev : { ...prev, endsAt };
+        });
+    }, [securitySettings.parentSessionMinutes]);
+
+    // Ends the parent session (later log entries aren't recorded for that parent any more)
+    const endParentSession = useCallback(() => {
+        setAuditParent(null);
+        setParentSession(null);
+    }, []);
+
+    // End the session once the parent stops touching protected screens for too long
+    const parentSessionEndsAt = parentSession?.endsAt ?? null;
+    useEffect(() => {
+        if (parentSessionEndsAt === null) return;
+        const timeoutId = setTimeout(endParentSession, Math.max(0, parentSessionEndsAt - Date.now()));
+        return () => clearTimeout(timeoutId);
+    }, [parentSessionEndsAt, endParentSession]);
+
+    // End the session when the app goes to the background (the phone may be handed back to a child)
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'background') endParentSession();
+        });
+        return () => subscription.remove();
+    }, [endParentSession]);
+
+    // Profile fields for an audit log entry (null when the action isn't about one child)
+    const auditProfile = (profileId: string | null | undefined) => ({
+        profileId: profileId ?? null,
+        profileName: profiles.find(p => p.id === profileId)?.name ?? null,
+    });
+
+    // Hashes a new PIN, saves the record to AsyncStorage and updates state.
+    // Whoever just chose the PIN is the parent, so a session starts and old wrong-PIN lockouts are cleared.
+    const savePin = async (newPin: string, kind: PasscodeKind = 'numeric'): Promise<boolean> => {
         try {
-            await AsyncStorage.setItem('parentPin', newPin);
-            setPin(newPin);
+            const record = await hashPin(newPin);
+            const policy: PasscodePolicy = { kind, length: kind === 'numeric' ? newPin.length : null };
+            await AsyncStorage.multiSet([
+                ['parentPin', serializePinRecord(record)],
+                ['passcodePolicy', JSON.stringify(policy)],
+            ]);
+            setPinRecord(record);
+            setPasscodePolicy(policy);
             setIsPinSet(true);
+            await updatePinLockout(INITIAL_LOCKOUT);
+            startParentSession('high');
+            recordAuditEvent({
+                action: 'pin-saved',
+                ...auditProfile(null),
+                detail: `Parent ${kind === 'numeric' ? 'PIN' : 'passcode'} ${isPinSet ? 'changed' : 'set'}`,
+            });
             return true;
         } catch (e) {
             return false; // If saving fails, return false
         }
     };
 
-    // Compares entered PIN with stored PIN
-    const verifyPin = (enteredPin: string): boolean => enteredPin === pin;
+    // Updates the lockout state and persists it
+    const updatePinLockout = async (next: PinLockoutState): Promise<void> => {
+        pinLockoutRef.current = next;
+        setPinLockout(next);
+        await AsyncStorage.setItem('pinLockout', JSON.stringify(next));
+    };
+
+    // Hashes the entered PIN with the stored salt and compares it to the stored hash.
+    // Wrong PINs are counted, and every MAX_PIN_ATTEMPTS failures start the next lockout step.
+    const verifyPin = async (enteredPin: string): Promise<boolean> => {
+        if (!pinRecord) return false; // No PIN saved yet
 
-    // Adds or removes a video ID from the selected videos list and persists the update
-    const toggleVideoSelectionInContext = async (videoId: string): Promise<void> => {
-        const newSelectedVideos = selectedVideos.includes(videoId)
-            ? selectedVideos.filter(id => id !== videoId) // Remove if already selected
-            : [...selectedVideos, videoId]; // Add if not selected
+        // Refuse to check anything while locked out (trusted time, so moving the device clock forward doesn't lift it)
+        const { lockedUntil } = pinLockoutRef.current;
+        if (lockedUntil && lockedUntil > trustedNow()) return false;
+
+        const isCorrect = await verifyPinHash(enteredPin, pinRecord);
+        if (isCorrect) {
+            // Correct PIN clears the failure history and opens a parent session
+            await updatePinLockout(INITIAL_LOCKOUT);
+            startParentSession('high');
+            return true;
+        }
 
-        setSelectedVideos(newSelectedVideos);
-        await AsyncStorage.setItem('selectedVideos', JSON.stringify(newSelectedVideos));
+        // Read after the hash check, so a submission that finished in the meantime is already counted
+        const current = pinLockoutRef.current;
+        const failedAttempts = current.failedAttempts + 1;
+        if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+            // Start the next lockout, backing off further each time
+            const step = Math.min(current.lockoutCount, LOCKOUT_SCHEDULE_MS.length - 1);
+            await updatePinLockout({
+                failedAttempts: 0,
+                lockoutCount: current.lockoutCount + 1,
+                lockedUntil: trustedNow() + LOCKOUT_SCHEDULE_MS[step],
+            });
+        } else {
+            await updatePinLockout({ ...current, failedAttempts, lockedUntil: null });
+        }
+        // Logged against whoever was watching, since that is usually who tried
+        recordAuditEvent({
+            action: 'pin-failed',
+            ...auditProfile(activeProfileId),
+            detail: failedAttempts >= MAX_PIN_ATTEMPTS ? 'Wrong PIN entered, PIN entry locked' : 'Wrong PIN entered',
+        });
+        return false;
+    };
+
+    // The active profile and its settings (falls back to defaults while nothing is picked)
+    const activeProfile = profiles.find(p => p.id === activeProfileId) ?? null;
+    const activeSettings = (activeProfileId && profileSettings[activeProfileId]) || DEFAULT_PROFILE_SETTINGS;
+
+    // Saves the profile list to AsyncStorage and updates state
+    const persistProfiles = async (nextProfiles: ChildProfile[]): Promise<void> => {
+        setProfiles(nextProfiles);
+        await AsyncStorage.setItem('childProfiles', JSON.stringify(nextProfiles));
+    };
+
+    // Switches the active profile; passing null sends the app back to the profile picker
+    const selectProfile = (profileId: string | null): void => {
+        setActiveProfileId(profileId);
     };
 
-    // Flips the restricted mode setting and updates AsyncStorage
-    const toggleRestrictedMode = async (): Promise<void> => {
-        const newMode = !restrictedMode;
-        setRestrictedMode(newMode);
-        await AsyncStorage.setItem('restrictedMode', String(newMode));
+    // Replaces all per-profile settings (ref and state together)
+    const commitProfileSettings = (next: { [profileId: string]: ProfileSettings }) => {
+        profileSettingsRef.current = next;
+        setProfileSettings(next);
     };
 
-    // Clears all settings stored in AsyncStorage and resets local state
+    // Applies a change to one profile's settings and returns the result for persisting.
+    // Reads the latest values from the ref, so two updates before a re-render build on each other.
+    const updateProfileSettings = (profileId: string, change: (current: ProfileSettings) => Partial<ProfileSettings>): ProfileSettings => {
+        const current = profileSettingsRef.current[profileId] ?? DEFAULT_PROFILE_SETTINGS;
+        const next = { ...current, ...change(current) };
+        commitProfileSettings({ ...profileSettingsRef.current, [profileId]: next });
+        return next;
+    };
+
+    // Creates a new profile with empty settings
+    const addProfile = async (profile: Omit<ChildProfile, 'id'>): Promise<ChildProfile> => {
+        const newProfile: ChildProfile = { ...profile, id: randomUUID() };
+        commitProfileSettings({ ...profileSettingsRef.current, [newProfile.id]: DEFAULT_PROFILE_SETTINGS });
+        await persistProfiles([...profiles, newProfile]);
+        return newProfile;
+    };
+
+    // Updates the name, avatar or age band of a profile
+    const updateProfile = async (profileId: string, changes: Partial<Omit<ChildProfile, 'id'>>): Promise<void> => {
+        await persistProfiles(profiles.map(p => (p.id === profileId ? { ...p, ...changes } : p)));
+    };
+
+    // Deletes a profile and every key stored under its namespace
+    const removeProfile = async (profileId: string): Promise<void> => {
+        const allKeys = await AsyncStorage.getAllKeys();
+        await AsyncStorage.multiRemove(findProfileKeys(allKeys, profileId));
+        const remaining = { ...profileSettingsRef.current };
+        delete remaining[profileId];
+        commitProfileSettings(remaining);
+        if (activeProfileId === profileId) setActiveProfileId(null);
+        await persistProfiles(profiles.filter(p => p.id !== profileId));
+    };
+
+    // Adds or removes a video ID from a profile's approved list (active profile by default) and persists the update
+    const toggleVideoSelectionInContext = async (videoId: string, profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const { selectedVideos: newSelectedVideos } = updateProfileSettings(profileId, current => ({
+            selectedVideos: current.selectedVideos.includes(videoId)
+                ? current.selectedVideos.filter(id => id !== videoId) // Remove if already selected
+                : [...current.selectedVideos, videoId], // Add if not selected
+        }));
+        await AsyncStorage.setItem(profileKey(profileId, 'selectedVideos'), JSON.stringify(newSelectedVideos));
+        recordAuditEvent({
+            action: 'video-approval',
+            ...auditProfile(profileId),
+            detail: `${newSelectedVideos.includes(videoId) ? 'Approved' : 'Removed'} video ${videoId}`,
+        });
+    };
+
+    // Replaces a profile's approved list in one go (bulk changes and clear-all)
+    const setSelectedVideos = async (videoIds: string[], profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const previous = profileSettingsRef.current[profileId]?.selectedVideos ?? [];
+        const newSelectedVideos = Array.from(new Set(videoIds)); // No duplicates
+        updateProfileSettings(profileId, () => ({ selectedVideos: newSelectedVideos }));
+        await AsyncStorage.setItem(profileKey(profileId, 'selectedVideos'), JSON.stringify(newSelectedVideos));
+        const added = newSelectedVideos.filter(id => !previous.includes(id)).length;
+        const removed = previous.filter(id => !newSelectedVideos.includes(id)).length;
+        recordAuditEvent({
+            action: 'video-approval',
+            ...auditProfile(profileId),
+            detail: `Approved list changed: ${added} added, ${removed} removed`,
+        });
+    };
+
+    // Flips a profile's restricted mode setting (active profile by default) and updates AsyncStorage
+    const toggleRestrictedMode = async (profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const { restrictedMode: newMode } = updateProfileSettings(profileId, current => ({ restrictedMode: !current.restrictedMode }));
+        await AsyncStorage.setItem(profileKey(profileId, 'restrictedMode'), String(newMode));
+        recordAuditEvent({
+            action: 'restricted-mode',
+            ...auditProfile(profileId),
+            detail: `Approved-only mode turned ${newMode ? 'on' : 'off'}`,
+        });
+    };
+
+    // Sets one weekday's watch-time allowance for a profile (active profile by default) and persists it
+    const setDailyLimit = async (dayIndex: number, minutes: number | null, profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const { dailyLimits: newLimits } = updateProfileSettings(profileId, current => ({
+            dailyLimits: current.dailyLimits.map((limit, i) => (i === dayIndex ? minutes : limit)),
+        }));
+        await AsyncStorage.setItem(profileKey(profileId, 'dailyLimits'), JSON.stringify(newLimits));
+    };
+
+    // Replaces a profile's blocked windows (active profile by default) and persists them
+    const saveBlockedWindows = async (windows: BlockedWindow[], profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        updateProfileSettings(profileId, () => ({ blockedWindows: windows }));
+        await AsyncStorage.setItem(profileKey(profileId, 'blockedWindows'), JSON.stringify(windows));
+    };
+
+    // Adds a video to a profile's pending requests (active profile by default); asking twice has no effect
+    const requestVideo = async (request: Omit<VideoRequest, 'requestedAt'>, profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const current = profileSettingsRef.current[profileId] ?? DEFAULT_PROFILE_SETTINGS;
+        if (current.videoRequests.some(r => r.videoId === request.videoId)) return;
+        const { videoRequests: newRequests } = updateProfileSettings(profileId, latest => ({
+            videoRequests: [...latest.videoRequests, { ...request, requestedAt: new Date().toISOString() }],
+        }));
+        await AsyncStorage.setItem(profileKey(profileId, 'videoRequests'), JSON.stringify(newRequests));
+    };
+
+    // Removes a video from a profile's pending requests (after a parent approved or denied it).
+    // Builds on the latest state so it can run right after toggleVideoSelectionInContext.
+    const removeVideoRequest = async (videoId: string, profileId: string | undefined = activeProfileId ?? undefined): Promise<void> => {
+        if (!profileId) return; // No profile to update
+        const { videoRequests: newRequests } = updateProfileSettings(profileId, current => ({
+            videoRequests: current.videoRequests.filter(r => r.videoId !== videoId),
+        }));
+        await AsyncStorage.setItem(profileKey(profileId, 'videoRequests'), JSON.stringify(newRequests));
+    };
+
+    // Merges changes into the player options and persists them
+    const updatePlayerSettings = async (changes: Partial<PlayerSettings>): Promise<void> => {
+        const next = { ...playerSettings, ...changes };
+        setPlayerSettings(next);
+        await AsyncStorage.setItem('playerSettings', JSON.stringify(next));
+    };
+
+    // Merges changes into the PIN requirements and persists them
+    const updateSecuritySettings = async (changes: Partial<SecuritySettings>): Promise<void> => {
+        const next = { ...securitySettings, ...changes };
+        setSecuritySettings(next);
+        await AsyncStorage.setItem('securitySettings', JSON.stringify(next));
+    };
+
+    // Clears all settings stored in AsyncStorage and resets local state (leaves one fresh default profile; the audit log is kept)
     const clearSettings = async (): Promise<void> => {
-        await AsyncStorage.multiRemove(['parentPin', 'restrictedMode', 'selectedVideos']);
-        setPin(null);
+        recordAuditEvent({ action: 'settings-cleared', ...auditProfile(null), detail: 'All settings and profiles cleared' });
+        const allKeys = await AsyncStorage.getAllKeys();
+        await AsyncStorage.multiRemove([
+            'parentPin', 'passcodePolicy', 'pinLockout', 'childProfiles', 'playerSettings', 'securitySettings',
+            ...findProfileKeys(allKeys),
+        ]);
+        setPinRecord(null);
+        setPasscodePolicy(DEFAULT_PASSCODE_POLICY);
+        pinLockoutRef.current = INITIAL_LOCKOUT;
+        setPinLockout(INITIAL_LOCKOUT);
+        setPlayerSettings(DEFAULT_PLAYER_SETTINGS);
+        setSecuritySettings(DEFAULT_SECURITY_SETTINGS);
+        endParentSession();
         setIsPinSet(false);
-        setRestrictedMode(false);
-        setSelectedVideos([]);
+
+        const defaultProfile = createDefaultProfile();
+        commitProfileSettings({ [defaultProfile.id]: DEFAULT_PROFILE_SETTINGS });
+        setActiveProfileId(defaultProfile.id);
+        await persistProfiles([defaultProfile]);
     };
 
     // Combine all state and actions to provide them via context
     const value: SettingsContextType = {
         isLoading,
         isPinSet,
-        restrictedMode,
-        selectedVideos,
+        restrictedMode: activeSettings.restrictedMode,
+        selectedVideos: activeSettings.selectedVideos,
+        profiles,
+        activeProfile,
+        profileSettings,
+        selectProfile,
+        addProfile,
+        updateProfile,
+        removeProfile,
+        passcodePolicy,
         savePin,
         verifyPin,
+        pinLockedUntil: pinLockout.lockedUntil,
+        remainingPinAttempts: MAX_PIN_ATTEMPTS - pinLockout.failedAttempts,
+        isParentSessionActive: parentSession !== null,
+        hasParentSession: (strength: GateStrength) => parentSession !== null && meetsStrength(parentSession.strength, strength),
+        parentSessionName: parentSession?.parentName ?? null,
+        startParentSession,
+        extendParentSession,
+        endParentSession,
         toggleVideoSelectionInContext,
+        setSelectedVideos,
         toggleRestrictedMode,
+        dailyLimits: activeSettings.dailyLimits,
+        setDailyLimit,
+        blockedWindows: activeSettings.blockedWindows,
+        saveBlockedWindows,
+        videoRequests: activeSettings.videoRequests,
+        requestVideo,
+        removeVideoRequest,
+        playerSettings,
+        updatePlayerSettings,
+        securitySettings,
+        updateSecuritySettings,
         clearSettings,
     };
 
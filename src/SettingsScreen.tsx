@@ -7,19 +7,109 @@ import React, { useState } from 'react';
 // React Native components for UI and user interaction
 import {
     ActivityIndicator, Alert, Modal, SafeAreaView, ScrollView,
-    StyleSheet, Switch, Text, TouchableOpacity, View
+    StyleSheet, Switch, Text, TextInput, TouchableOpacity, View
 } from 'react-native';
 // Import custom hook to access app-wide settings
-import { useSettings } from './SettingsContext';
+import { PARENT_SESSION_OPTIONS, useSettings } from './SettingsContext';
+// Downloaded videos are removed when all app data is cleared
+import { useDownloads } from './DownloadsContext';
+// The saved copy of the video list is removed too
+import { clearCatalogueCache } from './catalogueCache';
+// Premium status and restoring a purchase
+import { useEntitlement } from './EntitlementContext';
+// Parental checks a parent can choose between
+import { PARENTAL_GATES, SELECTABLE_GATES } from './parentalGates';
+// The PIN check for settings that protect the PIN itself
+import ParentGate, { useParentGate } from './ParentGate';
+// Record of parent actions, shown read-only
+import { AuditAction, useAuditLog } from './auditLog';
+
+// How many log entries are listed before "Show all"
+const AUDIT_PREVIEW_COUNT = 10;
+
+// Longest parent name accepted
+const MAX_PARENT_NAME_LENGTH = 20;
+
+// Short label shown for each kind of logged action
+const AUDIT_LABELS: { [action in AuditAction]: string } = {
+    'restricted-mode': 'Approved-only mode',
+    'video-approval': 'Video approvals',
+    'pin-saved': 'Parent PIN',
+    'pin-failed': 'Wrong PIN',
+    'settings-cleared': 'Settings reset',
+    'purchase': 'Purchase',
+    'purchase-rejected': 'Purchase rejected',
+};
+
+// Formats a timestamp as "Mon 14 Oct, 7:05 PM"
+const formatAuditTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(undefined, {
+        weekday: 'short', day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit',
+    });
 
 const SettingsScreen: React.FC = () => {
     const router = useRouter(); // Used for navigating between screens
 
     // Destructure values and functions from context
-    const { restrictedMode, toggleRestrictedMode, clearSettings } = useSettings();
+    const {
+        restrictedMode, toggleRestrictedMode, clearSettings, activeProfile, playerSettings, updatePlayerSettings,
+        profileSettings, securitySettings, updateSecuritySettings
+    } = useSettings();
+
+    // Requests from every child still waiting for an answer
+    const pendingRequests = Object.values(profileSettings).reduce((sum, settings) => sum + settings.videoRequests.length, 0);
+    const { deleteAllDownloads } = useDownloads();
+    const { isPremium, isChecking, restorePurchase, entitlement, plans } = useEntitlement();
+
+    // Name of the plan behind premium (the original one-time unlock has no plan)
+    const premiumPlanName = plans.find(p => p.id === entitlement?.planId)?.name;
 
     const [isLoading, setIsLoading] = useState<boolean>(false); // Loading state for async actions
     const [showResetModal, setShowResetModal] = useState<boolean>(false); // State to control the reset modal visibility
+    // Settings opens with the parent's chosen check, which may not be the PIN. The security settings
+    // (purchase toggle, check choice, session length, keypad options, changing the PIN, reset) always ask for the PIN itself.
+    const { runProtected, gateProps } = useParentGate('high');
+    const auditLog = useAuditLog(); // Parent actions, newest first
+    const [showFullLog, setShowFullLog] = useState<boolean>(false); // List every entry instead of the latest few
+    const visibleLog = showFullLog ? auditLog : auditLog.slice(0, AUDIT_PREVIEW_COUNT);
+    const [newParentName, setNewParentName] = useState<string>(''); // Name typed into "Add parent"
+
+    // Adds a parent to the "Who is this?" list (names must be unique so the log can tell them apart)
+    const handleAddParent = () => {
+        const name = newParentName.trim();
+        if (!name) return;
+        if (securitySettings.parentNames.some(n => n.toLowerCase() === name.toLowerCase())) {
+            Alert.alert('Name Taken', `${name} is already on the list.`);
+            return;
+        }
+        runProtected(async () => {
+            await updateSecuritySettings({ parentNames: [...securitySettings.parentNames, name] });
+            setNewParentName('');
+        });
+    };
+
+    // Takes a parent off the list (their earlier log entries keep their name)
+    const handleRemoveParent = (name: string) => {
+        runProtected(() => updateSecuritySettings({ parentNames: securitySettings.parentNames.filter(n => n !== name) }));
+    };
+
+    // Function to re-check the signed-in user's premium purchase with the backend
+    const handleRestorePurchase = async (): Promise<void> => {
+        try {
+            const result = await restorePurchase();
+            if (result === 'restored') {
+                Alert.alert('Purchase Restored', 'Premium is active on this device.');
+            } else if (result === 'revoked') {
+                Alert.alert('Purchase Not Valid', 'The payment service could not confirm this purchase.');
+            } else if (result === 'expired') {
+                Alert.alert('Subscription Ended', 'Your premium subscription has run out. Choose a plan to continue.');
+            } else {
+                Alert.alert('No Purchase Found', 'There is no premium purchase for this account.');
+            }
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to restore purchase.'); // Network or server problem
+        }
+    };
 
     // Function to reset only settings (not app data)
     const handleResetSettings = async (): Promise<void> => {
@@ -50,6 +140,8 @@ const SettingsScreen: React.FC = () => {
                     onPress: async () => {
                         try {
                             await clearSettings(); // Clear all AsyncStorage values
+                            await deleteAllDownloads(); // Remove downloaded video files
+                            await clearCatalogueCache(); // Remove the saved video list and thumbnails
                             router.replace('/login'); // Go to login screen
                         } catch (error) {
                             Alert.alert('Error', 'Failed to clear app data.');
@@ -73,13 +165,90 @@ const SettingsScreen: React.FC = () => {
                         <View style={styles.settingTextContainer}>
                             <Text style={styles.settingTitle}>Restricted Mode</Text>
                             <Text style={styles.settingDescription}>
-                                When enabled, only approved videos will be shown.
+                                When enabled, only approved videos will be shown
+                                {activeProfile ? ` to ${activeProfile.name}` : ''}.
                             </Text>
                         </View>
                         <Switch
                             value={restrictedMode}
-                            onValueChange={toggleRestrictedMode}
-                            disabled={isLoading} // Disable interaction during loading
+                            onValueChange={() => toggleRestrictedMode()}
+                            disabled={isLoading || !activeProfile} // Disable during loading or with no profile picked
+                        />
+                    </View>
+
+                    {/* Manage Child Profiles Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/ChildProfiles')}>
+                        <Text style={styles.buttonText}>Child Profiles</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Daily Screen Time Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/ScreenTime')}>
+                        <Text style={styles.buttonText}>Daily Screen Time</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Bedtime / School Hours Schedule Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/Schedule')}>
+                        <Text style={styles.buttonText}>Bedtime & School Hours</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Offline Downloads Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/Downloads')}>
+                        <Text style={styles.buttonText}>Offline Downloads</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Manage Approved Videos Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/ManageVideos')}>
+                        <Text style={styles.buttonText}>Manage Approved Videos</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Video Requests Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/VideoRequests')}>
+                        <Text style={styles.buttonText}>
+                            Video Requests{pendingRequests > 0 ? ` (${pendingRequests})` : ''}
+                        </Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Viewing Activity Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/ViewingActivity')}>
+                        <Text style={styles.buttonText}>Viewing Activity</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+                </View>
+
+                {/* --- Playback Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Playback</Text>
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingTextContainer}>
+                            <Text style={styles.settingTitle}>Full-Screen Player</Text>
+                            <Text style={styles.settingDescription}>
+                                Swipe up and down through videos one at a time. Each video plays on its own.
+                            </Text>
+                        </View>
+                        <Switch
+                            value={playerSettings.pagerMode}
+                            onValueChange={pagerMode => updatePlayerSettings({ pagerMode })}
+                            disabled={isLoading}
+                        />
+                    </View>
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingTextContainer}>
+                            <Text style={styles.settingTitle}>Play Next Automatically</Text>
+                            <Text style={styles.settingDescription}>
+                                In the full-screen player, move on to the next video when one ends.
+                                When off, the video starts again.
+                            </Text>
+                        </View>
+                        <Switch
+                            value={playerSettings.autoAdvance}
+                            onValueChange={autoAdvance => updatePlayerSettings({ autoAdvance })}
+                            disabled={isLoading || !playerSettings.pagerMode} // Only used by the full-screen player
                         />
                     </View>
                 </View>
@@ -88,19 +257,197 @@ const SettingsScreen: React.FC = () => {
                 <View style={styles.section}>
                     <Text style={styles.sectionTitle}>Account</Text>
 
+                    {/* Premium status */}
+                    <View style={styles.infoRow}>
+                        <Text style={styles.infoLabel}>Premium</Text>
+                        <Text style={styles.infoValue}>
+                            {isPremium ? `${premiumPlanName ?? 'Active'} 💎` : 'Not purchased'}
+                        </Text>
+                    </View>
+
+                    {/* Plans Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/Plans')}>
+                        <Text style={styles.buttonText}>{isPremium ? 'Change Plan' : 'Premium Plans'}</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
+                    {/* Parent PIN before purchases */}
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingTextContainer}>
+                            <Text style={styles.settingTitle}>Ask for PIN Before Purchases</Text>
+                            <Text style={styles.settingDescription}>
+                                The parent PIN is needed before the payment screen opens.
+                            </Text>
+                        </View>
+                        <Switch
+                            value={securitySettings.requirePinForPurchases}
+                            onValueChange={requirePinForPurchases => runProtected(() => updateSecuritySettings({ requirePinForPurchases }))}
+                            disabled={isLoading}
+                        />
+                    </View>
+
+                    {/* Which check opens the parent screens */}
+                    <View style={styles.sessionRow}>
+                        <Text style={styles.settingTitle}>Grown-up Check</Text>
+                        <Text style={styles.settingDescription}>
+                            What parent screens ask for. Purchases need the PIN while it is asked for above, changing these
+                            security settings always does, and switching profiles only needs a 3-second hold.
+                        </Text>
+                        <View style={styles.optionRow}>
+                            {SELECTABLE_GATES.map(kind => (
+                                <TouchableOpacity
+                                    key={kind}
+                                    style={[styles.optionChip, securitySettings.parentalGate === kind && styles.optionChipSelected]}
+                                    onPress={() => runProtected(() => updateSecuritySettings({ parentalGate: kind }))}
+                                    disabled={isLoading}
+                                >
+                                    <Text style={styles.optionChipText}>{PARENTAL_GATES[kind].label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+
+                    {/* How long parent screens stay unlocked after the PIN */}
+                    <View style={styles.sessionRow}>
+                        <Text style={styles.settingTitle}>Stay Unlocked For</Text>
+                        <Text style={styles.settingDescription}>
+                            Parent screens lock again after this long without a touch, or as soon as the app is closed.
+                        </Text>
+                        <View style={styles.optionRow}>
+                            {PARENT_SESSION_OPTIONS.map(minutes => (
+                                <TouchableOpacity
+                                    key={minutes}
+                                    style={[styles.optionChip, securitySettings.parentSessionMinutes === minutes && styles.optionChipSelected]}
+                                    onPress={() => runProtected(() => updateSecuritySettings({ parentSessionMinutes: minutes }))}
+                                    disabled={isLoading}
+                                >
+                                    <Text style={styles.optionChipText}>{minutes} min</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+
+                    {/* Restore Purchase Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={handleRestorePurchase} disabled={isChecking}>
+                        <Text style={styles.buttonText}>Restore Purchase</Text>
+                        {isChecking
+                            ? <ActivityIndicator color="#007AFF" />
+                            : <Ionicons name="refresh" size={24} color="#007AFF" />}
+                    </TouchableOpacity>
+
+                    {/* Purchases Option */}
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/Purchases')}>
+                        <Text style={styles.buttonText}>Purchases</Text>
+                        <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+                    </TouchableOpacity>
+
                     {/* Change Parent PIN Option */}
-                    <TouchableOpacity style={styles.buttonRow} onPress={() => router.push('/PinSetup')}>
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => runProtected(() => router.push('/PinSetup'))}>
                         <Text style={styles.buttonText}>Change Parent PIN</Text>
                         <Ionicons name="chevron-forward" size={24} color="#007AFF" />
                     </TouchableOpacity>
 
+                    {/* Shuffled PIN keypad */}
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingTextContainer}>
+                            <Text style={styles.settingTitle}>Shuffle PIN Keypad</Text>
+                            <Text style={styles.settingDescription}>
+                                The digits move around every time, so a tap pattern can't be copied by watching.
+                            </Text>
+                        </View>
+                        <Switch
+                            value={securitySettings.shuffleKeypad}
+                            onValueChange={shuffleKeypad => runProtected(() => updateSecuritySettings({ shuffleKeypad }))}
+                            disabled={isLoading}
+                        />
+                    </View>
+
+                    {/* Vibration on keypad presses */}
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingTextContainer}>
+                            <Text style={styles.settingTitle}>Keypad Vibration</Text>
+                            <Text style={styles.settingDescription}>
+                                A short buzz on each key press of the PIN keypad.
+                            </Text>
+                        </View>
+                        <Switch
+                            value={securitySettings.keypadHaptics}
+                            onValueChange={keypadHaptics => runProtected(() => updateSecuritySettings({ keypadHaptics }))}
+                            disabled={isLoading}
+                        />
+                    </View>
+
+                    {/* Parents sharing the device, asked for after a passed check */}
+                    <View style={styles.sessionRow}>
+                        <Text style={styles.settingTitle}>Parents on This Device</Text>
+                        <Text style={styles.settingDescription}>
+                            With two or more names, each check asks who you are, and the activity log shows who made each change.
+                        </Text>
+                        <View style={styles.optionRow}>
+                            {securitySettings.parentNames.map(name => (
+                                <TouchableOpacity
+                                    key={name}
+                                    style={[styles.optionChip, styles.parentChip]}
+                                    onPress={() => handleRemoveParent(name)}
+                                    disabled={isLoading}
+                                >
+                                    <Text style={styles.optionChipText}>{name}</Text>
+                                    <Ionicons name="close" size={16} color="#888" />
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        <View style={styles.addParentRow}>
+                            <TextInput
+                                style={styles.parentInput}
+                                value={newParentName}
+                                onChangeText={setNewParentName}
+                                placeholder="Parent name"
+                                maxLength={MAX_PARENT_NAME_LENGTH}
+                                onSubmitEditing={handleAddParent}
+                            />
+                            <TouchableOpacity onPress={handleAddParent} disabled={isLoading || !newParentName.trim()}>
+                                <Text style={styles.buttonText}>Add</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+
                     {/* Reset Settings Option */}
-                    <TouchableOpacity style={styles.buttonRow} onPress={() => setShowResetModal(true)}>
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => runProtected(() => setShowResetModal(true))}>
                         <Text style={styles.dangerButtonText}>Reset Settings</Text>
                         <Ionicons name="warning-outline" size={24} color="#DC3545" />
                     </TouchableOpacity>
                 </View>
 
+                {/* --- Activity Log Section (read-only) --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Activity Log</Text>
+                    {auditLog.length === 0 ? (
+                        <Text style={styles.settingDescription}>No parent actions recorded yet.</Text>
+                    ) : (
+                        visibleLog.map((entry, index) => (
+                            <View key={`${entry.timestamp}-${index}`} style={styles.logRow}>
+                                <View style={styles.logHeader}>
+                                    <Text style={styles.logAction}>{AUDIT_LABELS[entry.action]}</Text>
+                                    <Text style={styles.logTime}>{formatAuditTime(entry.timestamp)}</Text>
+                                </View>
+                                <Text style={styles.settingDescription}>{entry.detail}</Text>
+                                <Text style={styles.logMeta}>
+                                    {entry.profileName ?? 'All profiles'}
+                                    {entry.parentName ? ` · ${entry.parentName}` : ''}
+                                    {entry.account ? ` · ${entry.account}` : ''}
+                                </Text>
+                            </View>
+                        ))
+                    )}
+                    {auditLog.length > AUDIT_PREVIEW_COUNT && (
+                        <TouchableOpacity style={styles.logToggle} onPress={() => setShowFullLog(v => !v)}>
+                            <Text style={styles.buttonText}>
+                                {showFullLog ? 'Show less' : `Show all (${auditLog.length})`}
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+
                 {/* --- App Information Section --- */}
                 <View style={styles.section}>
                     <Text style={styles.sectionTitle}>App Information</Text>
@@ -161,6 +508,9 @@ const SettingsScreen: React.FC = () => {
                     </View>
                 </Modal>
             </ScrollView>
+
+            {/* PIN check for the PIN-protecting settings */}
+            <ParentGate {...gateProps} instruction="Enter your PIN to change this setting." />
         </SafeAreaView>
     );
 };
@@ -201,6 +551,32 @@ const styles = StyleSheet.create({
 
     settingDescription: { fontSize: 14, color: '#666' },
 
+    sessionRow: { paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: '#f0f0f0' },
+    optionRow: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 10 },
+    optionChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    optionChipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    optionChipText: { fontSize: 15, color: '#333' },
+    parentChip: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+    addParentRow: { flexDirection: 'row', alignItems: 'center', marginTop: 4 },
+    parentInput: {
+        flex: 1,
+        height: 40,
+        borderWidth: 1,
+        borderColor: '#ddd',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        fontSize: 15,
+        marginRight: 12,
+    },
+
     buttonRow: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -224,6 +600,18 @@ const styles = StyleSheet.create({
     infoLabel: { fontSize: 16, color: '#333' },
     infoValue: { fontSize: 16, color: '#666' },
 
+    logRow: {
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+
+    logHeader: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 2 },
+    logAction: { fontSize: 15, fontWeight: '500', color: '#333' },
+    logTime: { fontSize: 13, color: '#888' },
+    logMeta: { fontSize: 12, color: '#999', marginTop: 2 },
+    logToggle: { paddingTop: 12, alignItems: 'center' },
+
     modalContainer: {
         flex: 1,
         justifyContent: 'center',
@@ -0,0 +1,94 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core and hooks
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import { SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+// Parental check (with its wrong-PIN lockout) shown before bonus time can be added
+import ParentGate, { useParentGate } from './ParentGate';
+// Formatting helper for watch time
+import { formatMinutes } from './screenTime';
+
+// Bonus amounts a parent can grant, in minutes
+const BONUS_OPTIONS = [15, 30, 60];
+
+// Props for the time's up lock screen
+interface TimesUpScreenProps {
+    usedSeconds: number;                            // How long the child has watched today
+    onGrantBonus: (minutes: number) => Promise<void>; // Adds bonus minutes for today
+}
+
+// Locked screen shown in place of the feed once today's allowance is used up
+const TimesUpScreen: React.FC<TimesUpScreenProps> = ({ usedSeconds, onGrantBonus }) => {
+    // Extra watch time is the parent PIN's to give, like purchases
+    const { runProtected, gateProps } = useParentGate('high');
+
+    const [isUnlocked, setIsUnlocked] = useState<boolean>(false); // True after the parental check was passed
+
+    // Grants the chosen bonus and closes the parent options
+    const handleBonus = async (minutes: number): Promise<void> => {
+        await onGrantBonus(minutes);
+        setIsUnlocked(false);
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <Ionicons name="moon" size={64} color="#6200ee" />
+            <Text style={styles.title}>Time's up for today!</Text>
+            <Text style={styles.message}>
+                You watched {formatMinutes(usedSeconds)} today. Time to play something else!
+            </Text>
+
+            {/* Parent-only bonus time */}
+            {isUnlocked ? (
+                <View style={styles.bonusContainer}>
+                    <Text style={styles.bonusTitle}>Add bonus time</Text>
+                    <View style={styles.bonusRow}>
+                        {BONUS_OPTIONS.map(minutes => (
+                            <TouchableOpacity key={minutes} style={styles.bonusButton} onPress={() => handleBonus(minutes)}>
+                                <Text style={styles.bonusButtonText}>+{minutes} min</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <TouchableOpacity onPress={() => setIsUnlocked(false)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <TouchableOpacity style={styles.parentButton} onPress={() => runProtected(() => setIsUnlocked(true))}>
+                    <Ionicons name="lock-closed" size={18} color="#fff" />
+                    <Text style={styles.parentButtonText}>Parent: add time</Text>
+                </TouchableOpacity>
+            )}
+
+            {/* Parental check, shown full screen */}
+            <ParentGate {...gateProps} instruction="Enter your PIN to add bonus time." />
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet for the lock screen
+const styles = StyleSheet.create({
+    container: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 30, backgroundColor: '#f3eefc' },
+    title: { fontSize: 26, fontWeight: 'bold', color: '#333', marginTop: 20, marginBottom: 10, textAlign: 'center' },
+    message: { fontSize: 16, color: '#555', textAlign: 'center', marginBottom: 30 },
+    parentButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#6200ee',
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 25,
+        gap: 8,
+    },
+    parentButtonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+    bonusContainer: { alignItems: 'center' },
+    bonusTitle: { fontSize: 18, fontWeight: '600', color: '#333', marginBottom: 12 },
+    bonusRow: { flexDirection: 'row', gap: 10, marginBottom: 15 },
+    bonusButton: { backgroundColor: '#4CAF50', paddingVertical: 10, paddingHorizontal: 16, borderRadius: 20 },
+    bonusButtonText: { color: '#fff', fontSize: 15, fontWeight: 'bold' },
+    cancelText: { fontSize: 16, color: '#555' },
+});
+
+// Export the component so ForYouScreen can show it
+export default TimesUpScreen;
@@ -0,0 +1,138 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// Import router for opening the plan picker
+import { useRouter } from 'expo-router';
+// React core
+import React, { useState } from 'react';
+// React Native components for UI and user interaction
+import { ActivityIndicator, Alert, Image, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+// The plan's limit on approved videos per child
+import { useEntitlement } from './EntitlementContext';
+// Request type
+import { VideoRequest } from './profiles';
+
+// Parent screen for answering the videos kids have asked for (a parent route, see ROUTE_GUARDS in app/_layout)
+const VideoRequestsScreen: React.FC = () => {
+    const router = useRouter(); // Used to open the plan picker
+    const { profiles, profileSettings, toggleVideoSelectionInContext, removeVideoRequest } = useSettings();
+    const { selectionLimit } = useEntitlement();
+    const [approvingId, setApprovingId] = useState<string | null>(null); // Request being approved right now
+
+    // Adds the video to the child's approved list and clears the request.
+    // At the plan's limit the request stays open, the same way the feed and ManageVideos refuse a new approval.
+    // One approval at a time, so the limit check always sees the previous approval.
+    const handleApprove = async (request: VideoRequest, profileId: string): Promise<void> => {
+        const approvedIds = profileSettings[profileId]?.selectedVideos ?? [];
+        if (!approvedIds.includes(request.videoId) && selectionLimit !== null && approvedIds.length >= selectionLimit) {
+            Alert.alert('Plan Limit Reached', `Your plan allows ${selectionLimit} approved videos per child.`, [
+                { text: 'Not Now', style: 'cancel' },
+                { text: 'See Plans', onPress: () => router.push('/Plans') },
+            ]);
+            return;
+        }
+
+        setApprovingId(request.videoId);
+        try {
+            if (!approvedIds.includes(request.videoId)) await toggleVideoSelectionInContext(request.videoId, profileId);
+            await removeVideoRequest(request.videoId, profileId);
+        } finally {
+            setApprovingId(null);
+        }
+    };
+
+    // Clears the request without approving the video
+    const handleDeny = (request: VideoRequest, profileId: string) => {
+        Alert.alert('Deny Request?', `"${request.videoTitle}" will stay locked.`, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Deny', style: 'destructive', onPress: () => removeVideoRequest(request.videoId, profileId) },
+        ]);
+    };
+
+    // Profiles that have something waiting
+    const profilesWithRequests = profiles.filter(p => (profileSettings[p.id]?.videoRequests ?? []).length > 0);
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {profilesWithRequests.length === 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.emptyText}>No requests right now.</Text>
+                    </View>
+                )}
+
+                {/* One section per child, oldest request first */}
+                {profilesWithRequests.map(profile => (
+                    <View key={profile.id} style={styles.section}>
+                        <Text style={styles.sectionTitle}>{profile.avatar} {profile.name}</Text>
+
+                        {profileSettings[profile.id].videoRequests.map(request => (
+                            <View key={request.videoId} style={styles.requestRow}>
+                                <Image
+                                    source={request.thumbnailUrl ? { uri: request.thumbnailUrl } : require('../assets/video-placeholder.png')}
+                                    style={styles.thumbnail}
+                                    resizeMode="cover"
+                                />
+                                <View style={styles.requestInfo}>
+                                    <Text style={styles.requestTitle} numberOfLines={2}>{request.videoTitle}</Text>
+                                    <Text style={styles.requestDetail}>
+                                        Asked {new Date(request.requestedAt).toLocaleString(undefined, {
+                                            day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit',
+                                        })}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity
+                                    onPress={() => handleApprove(request, profile.id)}
+                                    style={styles.iconButton}
+                                    disabled={approvingId !== null}
+                                >
+                                    {approvingId === request.videoId
+                                        ? <ActivityIndicator color="#4CAF50" />
+                                        : <Ionicons name="checkmark-circle" size={30} color={approvingId ? '#A5D6A7' : '#4CAF50'} />}
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={() => handleDeny(request, profile.id)} style={styles.iconButton}>
+                                    <Ionicons name="close-circle" size={30} color="#DC3545" />
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </View>
+                ))}
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 10,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 10, marginTop: 5, color: '#333' },
+
+    requestRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    thumbnail: { width: 80, height: 45, borderRadius: 6, backgroundColor: '#1c1c1e' },
+    requestInfo: { flex: 1, marginLeft: 10 },
+    requestTitle: { fontSize: 16, fontWeight: '500', color: '#333' },
+    requestDetail: { fontSize: 13, color: '#666', marginTop: 2 },
+    iconButton: { padding: 4 },
+
+    emptyText: { fontSize: 15, color: '#999', paddingVertical: 10 },
+});
+
+// Exporting screen as default
+export default VideoRequestsScreen;
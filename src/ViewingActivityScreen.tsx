@@ -0,0 +1,227 @@
+// Import Ionicons for using vector icons in the UI
+import { Ionicons } from '@expo/vector-icons';
+// React core and hooks
+import React, { useEffect, useState } from 'react';
+// React Native components for UI and user interaction
+import {
+    ActivityIndicator, Alert, SafeAreaView, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View
+} from 'react-native';
+// Import custom hook to access app-wide settings
+import { useSettings } from './SettingsContext';
+// Formatting helper for watch time
+import { formatMinutes } from './screenTime';
+// Watch history store and report helpers
+import {
+    buildWatchSessions, historyToCsv, historyToJson, loadWatchHistory, summarizeByDay, summarizeByVideo,
+    WatchEvent, WatchEventType
+} from './watchHistory';
+
+// How many days, videos and timeline events the report shows
+const REPORT_DAYS = 7;
+const TOP_VIDEOS = 5;
+const TIMELINE_EVENTS = 50;
+
+// Icon and wording for each kind of event in the timeline
+const EVENT_DETAILS: { [type in WatchEventType]: { icon: keyof typeof Ionicons.glyphMap; color: string; label: string } } = {
+    play: { icon: 'play-circle', color: '#4CAF50', label: 'Played' },
+    pause: { icon: 'pause-circle', color: '#888', label: 'Paused' },
+    finish: { icon: 'checkmark-circle', color: '#007AFF', label: 'Finished' },
+    error: { icon: 'alert-circle', color: '#DC3545', label: 'Error' },
+};
+
+// Formats a timestamp as "Mon 14 Oct, 7:05 PM"
+const formatEventTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(undefined, {
+        weekday: 'short', day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit',
+    });
+
+// Parent screen showing what each child watched (a parent route, see ROUTE_GUARDS in app/_layout)
+const ViewingActivityScreen: React.FC = () => {
+    const { profiles, activeProfile } = useSettings();
+
+    // Profile whose history is shown (defaults to whoever is watching now)
+    const [profileId, setProfileId] = useState<string | undefined>(activeProfile?.id ?? profiles[0]?.id);
+    const [events, setEvents] = useState<WatchEvent[]>([]); // History for the chosen profile, oldest first
+    const [isLoading, setIsLoading] = useState<boolean>(false); // True while the history is read
+
+    // Load the chosen profile's history
+    useEffect(() => {
+        if (!profileId) return;
+        setIsLoading(true);
+        loadWatchHistory(profileId)
+            .then(setEvents)
+            .finally(() => setIsLoading(false));
+    }, [profileId]);
+
+    // Opens the share sheet with the history as CSV or JSON
+    const handleExport = async (format: 'csv' | 'json'): Promise<void> => {
+        const profileName = profiles.find(p => p.id === profileId)?.name ?? 'child';
+        try {
+            await Share.share({
+                title: `Viewing activity for ${profileName}`,
+                message: format === 'csv' ? historyToCsv(events) : historyToJson(events),
+            });
+        } catch (e: any) {
+            Alert.alert('Export Failed', e.message);
+        }
+    };
+
+    // Build the report from the raw events
+    const sessions = buildWatchSessions(events);
+    const dailyTotals = summarizeByDay(sessions).slice(0, REPORT_DAYS);
+    const topVideos = summarizeByVideo(sessions, TOP_VIDEOS);
+    const timeline = events.slice(-TIMELINE_EVENTS).reverse();
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView>
+                {/* Profile chooser, only needed with more than one child */}
+                {profiles.length > 1 && (
+                    <View style={styles.profileRow}>
+                        {profiles.map(profile => (
+                            <TouchableOpacity
+                                key={profile.id}
+                                style={[styles.chip, profile.id === profileId && styles.chipSelected]}
+                                onPress={() => setProfileId(profile.id)}
+                            >
+                                <Text style={styles.chipText}>{profile.avatar} {profile.name}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+
+                {isLoading && <ActivityIndicator style={styles.loader} />}
+
+                {/* --- Daily Totals Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Daily Watch Time</Text>
+                    {dailyTotals.length === 0 && <Text style={styles.emptyText}>Nothing watched yet.</Text>}
+                    {dailyTotals.map(day => (
+                        <View key={day.date} style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>
+                                {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+                                    weekday: 'long', day: 'numeric', month: 'short',
+                                })}
+                            </Text>
+                            <Text style={styles.infoValue}>{formatMinutes(day.seconds)}</Text>
+                        </View>
+                    ))}
+                </View>
+
+                {/* --- Most Watched Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Most Watched</Text>
+                    {topVideos.length === 0 && <Text style={styles.emptyText}>Nothing watched yet.</Text>}
+                    {topVideos.map(video => (
+                        <View key={video.videoId} style={styles.infoRow}>
+                            <Text style={styles.videoTitle} numberOfLines={1}>{video.videoTitle}</Text>
+                            <Text style={styles.infoValue}>
+                                {formatMinutes(video.seconds)} · {video.plays} {video.plays === 1 ? 'play' : 'plays'}
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+
+                {/* --- Timeline Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Timeline</Text>
+                    {timeline.length === 0 && <Text style={styles.emptyText}>No activity recorded.</Text>}
+                    {timeline.map((event, index) => {
+                        const details = EVENT_DETAILS[event.type];
+                        return (
+                            <View key={`${event.timestamp}-${index}`} style={styles.timelineRow}>
+                                <Ionicons name={details.icon} size={22} color={details.color} />
+                                <View style={styles.timelineInfo}>
+                                    <Text style={styles.videoTitle} numberOfLines={1}>{event.videoTitle}</Text>
+                                    <Text style={styles.timelineDetail}>
+                                        {details.label} · {formatEventTime(event.timestamp)}
+                                        {event.message ? ` · ${event.message}` : ''}
+                                    </Text>
+                                </View>
+                            </View>
+                        );
+                    })}
+                </View>
+
+                {/* --- Export Section --- */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Export</Text>
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => handleExport('csv')} disabled={events.length === 0}>
+                        <Text style={styles.buttonText}>Export as CSV</Text>
+                        <Ionicons name="share-outline" size={22} color="#007AFF" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.buttonRow} onPress={() => handleExport('json')} disabled={events.length === 0}>
+                        <Text style={styles.buttonText}>Export as JSON</Text>
+                        <Ionicons name="share-outline" size={22} color="#007AFF" />
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+// Stylesheet (matches the look of SettingsScreen)
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#f5f5f5' },
+
+    profileRow: { flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 15, paddingTop: 15 },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#eee',
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    chipSelected: { borderColor: '#007AFF', backgroundColor: '#eaf3ff' },
+    chipText: { fontSize: 15, color: '#333' },
+
+    section: {
+        backgroundColor: '#fff',
+        marginVertical: 10,
+        paddingHorizontal: 15,
+        paddingVertical: 10,
+        borderRadius: 10,
+        marginHorizontal: 15,
+    },
+
+    sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 10, marginTop: 5, color: '#333' },
+
+    infoRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    infoLabel: { fontSize: 16, color: '#333' },
+    infoValue: { fontSize: 15, color: '#666' },
+    videoTitle: { flexShrink: 1, fontSize: 16, color: '#333', marginRight: 10 },
+
+    timelineRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#f0f0f0',
+    },
+    timelineInfo: { flex: 1, marginLeft: 10 },
+    timelineDetail: { fontSize: 13, color: '#666', marginTop: 2 },
+
+    buttonRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 15,
+    },
+    buttonText: { fontSize: 16, color: '#007AFF' },
+
+    loader: { marginVertical: 10 },
+    emptyText: { fontSize: 15, color: '#999', paddingVertical: 10 },
+});
+
+// Exporting screen as default
+export default ViewingActivityScreen;
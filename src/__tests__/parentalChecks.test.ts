@@ -0,0 +1,64 @@
+// src/__tests__/parentalChecks.test.ts
+
+import { PARENTAL_GATES, resolveGate } from '../parentalGates';
+import { isCompletePasscode, meetsStrength, validateNewPasscode } from '../SettingsContext';
+
+// Settings pulls in the Firebase setup through the audit log; none of these checks need a signed-in account
+jest.mock('@/firebaseConfig', () => ({ auth: { currentUser: null } }));
+
+describe('validateNewPasscode', () => {
+    it('accepts PINs of 4 to 8 digits', () => {
+        expect(validateNewPasscode('1234', 'numeric')).toBeNull();
+        expect(validateNewPasscode('12345678', 'numeric')).toBeNull();
+    });
+
+    it('rejects PINs that are too short, too long or not all digits', () => {
+        expect(validateNewPasscode('123', 'numeric')).toBe('PIN must be 4 to 8 digits.');
+        expect(validateNewPasscode('123456789', 'numeric')).toBe('PIN must be 4 to 8 digits.');
+        expect(validateNewPasscode('12a4', 'numeric')).toBe('PIN can only contain digits.');
+        expect(validateNewPasscode('', 'numeric')).toBe('PIN can only contain digits.');
+    });
+
+    it('needs alphanumeric passcodes of 6 to 32 characters with letters and numbers', () => {
+        expect(validateNewPasscode('abc123', 'alphanumeric')).toBeNull();
+        expect(validateNewPasscode('ab12', 'alphanumeric')).toBe('Passcode must be at least 6 characters.');
+        expect(validateNewPasscode('a1'.repeat(17), 'alphanumeric')).toBe('Passcode can be at most 32 characters.');
+        expect(validateNewPasscode('abcdef', 'alphanumeric')).toBe('Passcode needs both letters and numbers.');
+        expect(validateNewPasscode('123456', 'alphanumeric')).toBe('Passcode needs both letters and numbers.');
+    });
+});
+
+describe('isCompletePasscode', () => {
+    it('needs every digit of a PIN but any passcode', () => {
+        expect(isCompletePasscode('123', { kind: 'numeric', length: 4 })).toBe(false);
+        expect(isCompletePasscode('1234', { kind: 'numeric', length: 4 })).toBe(true);
+        expect(isCompletePasscode('', { kind: 'alphanumeric', length: null })).toBe(false);
+        expect(isCompletePasscode('x', { kind: 'alphanumeric', length: null })).toBe(true);
+    });
+});
+
+describe('meetsStrength', () => {
+    it('lets a stronger check cover a weaker action, never the other way round', () => {
+        expect(meetsStrength('high', 'medium')).toBe(true);
+        expect(meetsStrength('medium', 'medium')).toBe(true);
+        expect(meetsStrength('low', 'medium')).toBe(false);
+        expect(meetsStrength('medium', 'high')).toBe(false);
+    });
+});
+
+describe('resolveGate', () => {
+    it('uses the hold gesture for low-stakes actions whatever the parent prefers', () => {
+        expect(resolveGate('low', 'pin')).toBe(PARENTAL_GATES.hold);
+        expect(resolveGate('low', 'challenge')).toBe(PARENTAL_GATES.hold);
+    });
+
+    it('uses the preferred check when it is strong enough', () => {
+        expect(resolveGate('medium', 'challenge')).toBe(PARENTAL_GATES.challenge);
+        expect(resolveGate('medium', 'pin')).toBe(PARENTAL_GATES.pin);
+    });
+
+    it('falls back to the PIN when the preferred check is too weak', () => {
+        expect(resolveGate('high', 'challenge')).toBe(PARENTAL_GATES.pin);
+        expect(resolveGate('medium', 'hold')).toBe(PARENTAL_GATES.pin);
+    });
+});
@@ -0,0 +1,68 @@
+// src/__tests__/pinHash.test.ts
+
+import { hashPin, parsePinRecord, pbkdf2Sha256, serializePinRecord, verifyPinHash } from '../pinHash';
+
+// Salts come from the native random generator, which isn't there under Jest
+jest.mock('expo-crypto', () => ({
+    getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+const toBytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+describe('pbkdf2Sha256', () => {
+    // Published PBKDF2-HMAC-SHA256 vectors for P = "password", S = "salt", dkLen = 32
+    it.each([
+        [1, '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'],
+        [2, 'ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43'],
+        [4096, 'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a'],
+    ])('matches the known vector for %i iteration(s)', (iterations, expected) => {
+        expect(toHex(pbkdf2Sha256(toBytes('password'), toBytes('salt'), iterations))).toBe(expected);
+    });
+
+    it('matches Node for a longer password and salt (more than one SHA-256 block)', () => {
+        const password = 'passwordPASSWORDpassword'.repeat(4);
+        const salt = 'saltSALTsaltSALTsaltSALTsaltSALTsalt'.repeat(3);
+        const expected = require('crypto').pbkdf2Sync(password, salt, 10, 32, 'sha256').toString('hex');
+        expect(toHex(pbkdf2Sha256(toBytes(password), toBytes(salt), 10))).toBe(expected);
+    });
+});
+
+describe('verifyPinHash', () => {
+    // A stored record for PIN "1234", computed independently
+    const record = {
+        v: 1,
+        alg: 'pbkdf2-sha256' as const,
+        iter: 10000,
+        salt: '000102030405060708090a0b0c0d0e0f',
+        hash: '91ea059bae0333a2969fc8ccd7c77851dda43f5adb96baeea246a624cdf489ec',
+    };
+
+    it('accepts the right PIN', async () => {
+        await expect(verifyPinHash('1234', record)).resolves.toBe(true);
+    });
+
+    it('rejects a wrong PIN', async () => {
+        await expect(verifyPinHash('1235', record)).resolves.toBe(false);
+        await expect(verifyPinHash('', record)).resolves.toBe(false);
+    });
+
+    it('checks a PIN hashed with hashPin', async () => {
+        const created = await hashPin('ab12cd');
+        expect(created.salt).toHaveLength(32);
+        await expect(verifyPinHash('ab12cd', created)).resolves.toBe(true);
+        await expect(verifyPinHash('ab12ce', created)).resolves.toBe(false);
+    });
+});
+
+describe('parsePinRecord', () => {
+    it('reads back a serialized record', async () => {
+        const created = await hashPin('4321');
+        expect(parsePinRecord(serializePinRecord(created))).toEqual(created);
+    });
+
+    it('returns null for a legacy plain-text PIN', () => {
+        expect(parsePinRecord('1234')).toBeNull();
+        expect(parsePinRecord('{"pin":"1234"}')).toBeNull();
+    });
+});
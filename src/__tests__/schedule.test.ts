@@ -0,0 +1,67 @@
+// src/__tests__/schedule.test.ts
+
+import { BlockedWindow, findActiveWindow, formatTimeOfDay } from '../schedule';
+
+// 1 January 2024 was a Monday
+const MONDAY = 1;
+const FRIDAY = 5;
+
+const makeWindow = (changes: Partial<BlockedWindow>): BlockedWindow => ({
+    id: 'w1',
+    label: 'Bedtime',
+    days: [MONDAY],
+    startMinutes: 19 * 60,
+    endMinutes: 21 * 60,
+    timeZone: 'UTC',
+    ...changes,
+});
+
+describe('findActiveWindow', () => {
+    it('finds a same-day window and when it ends', () => {
+        const window = makeWindow({});
+        const found = findActiveWindow([window], new Date('2024-01-01T20:15:30Z'));
+        expect(found?.window).toBe(window);
+        expect(found?.endsAt.toISOString()).toBe('2024-01-01T21:00:00.000Z');
+    });
+
+    it('is inactive before the start, at the end and on other days', () => {
+        const windows = [makeWindow({})];
+        expect(findActiveWindow(windows, new Date('2024-01-01T18:59:00Z'))).toBeNull();
+        expect(findActiveWindow(windows, new Date('2024-01-01T21:00:00Z'))).toBeNull();
+        expect(findActiveWindow(windows, new Date('2024-01-02T20:00:00Z'))).toBeNull();
+    });
+
+    it('runs an overnight window past midnight into the next morning', () => {
+        const windows = [makeWindow({ days: [FRIDAY], startMinutes: 21 * 60, endMinutes: 7 * 60 })];
+        expect(findActiveWindow(windows, new Date('2024-01-05T22:00:00Z'))?.endsAt.toISOString())
+            .toBe('2024-01-06T07:00:00.000Z');
+        expect(findActiveWindow(windows, new Date('2024-01-06T06:30:00Z'))?.endsAt.toISOString())
+            .toBe('2024-01-06T07:00:00.000Z');
+        expect(findActiveWindow(windows, new Date('2024-01-06T07:00:00Z'))).toBeNull();
+        // Only the day it starts on counts: Thursday night isn't covered
+        expect(findActiveWindow(windows, new Date('2024-01-05T06:30:00Z'))).toBeNull();
+    });
+
+    it('reads the times in the window\'s own time zone', () => {
+        // 7 PM to 9 PM Monday in New York is 00:00 to 02:00 Tuesday UTC in winter
+        const windows = [makeWindow({ timeZone: 'America/New_York' })];
+        expect(findActiveWindow(windows, new Date('2024-01-01T20:00:00Z'))).toBeNull();
+        expect(findActiveWindow(windows, new Date('2024-01-02T00:30:00Z'))?.endsAt.toISOString())
+            .toBe('2024-01-02T02:00:00.000Z');
+    });
+
+    it('returns the first matching window', () => {
+        const early = makeWindow({ id: 'early', startMinutes: 18 * 60 });
+        const late = makeWindow({ id: 'late' });
+        expect(findActiveWindow([early, late], new Date('2024-01-01T19:30:00Z'))?.window.id).toBe('early');
+    });
+});
+
+describe('formatTimeOfDay', () => {
+    it('formats minutes after midnight on a 12-hour clock', () => {
+        expect(formatTimeOfDay(0)).toBe('12:00 AM');
+        expect(formatTimeOfDay(7 * 60 + 5)).toBe('7:05 AM');
+        expect(formatTimeOfDay(12 * 60)).toBe('12:00 PM');
+        expect(formatTimeOfDay(19 * 60 + 30)).toBe('7:30 PM');
+    });
+});
@@ -0,0 +1,30 @@
+// src/__tests__/videos.test.ts
+
+import { mergeVideos, VideoData } from '../api/videos';
+
+const makeVideo = (id: string, url = `https://example.com/${id}.mp4`): VideoData => ({ id, url });
+
+describe('mergeVideos', () => {
+    it('appends new videos after the existing ones', () => {
+        const merged = mergeVideos([makeVideo('a'), makeVideo('b')], [makeVideo('c')]);
+        expect(merged.map(v => v.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('replaces a video that comes again in place, with the newer copy', () => {
+        const merged = mergeVideos([makeVideo('a'), makeVideo('b')], [makeVideo('a', 'https://example.com/new.mp4')]);
+        expect(merged.map(v => v.id)).toEqual(['a', 'b']);
+        expect(merged[0].url).toBe('https://example.com/new.mp4');
+    });
+
+    it('de-duplicates within the incoming page too', () => {
+        const merged = mergeVideos([], [makeVideo('a'), makeVideo('b'), makeVideo('a', 'https://example.com/last.mp4')]);
+        expect(merged.map(v => v.id)).toEqual(['a', 'b']);
+        expect(merged[0].url).toBe('https://example.com/last.mp4');
+    });
+
+    it('leaves the existing list untouched', () => {
+        const existing = [makeVideo('a')];
+        mergeVideos(existing, [makeVideo('a', 'https://example.com/new.mp4'), makeVideo('b')]);
+        expect(existing).toEqual([makeVideo('a')]);
+    });
+});
@@ -0,0 +1,75 @@
+// src/__tests__/watchHistory.test.ts
+
+import { buildWatchSessions, historyToCsv, WatchEvent } from '../watchHistory';
+
+const START = Date.UTC(2024, 0, 1, 17, 0, 0);
+
+const makeEvent = (type: WatchEvent['type'], secondsIn: number, positionMillis: number | null, videoId = 'v1'): WatchEvent => ({
+    type,
+    videoId,
+    videoTitle: `Video ${videoId}`,
+    timestamp: START + secondsIn * 1000,
+    positionMillis,
+});
+
+describe('buildWatchSessions', () => {
+    it('uses the position moved when both events know it', () => {
+        const sessions = buildWatchSessions([makeEvent('play', 0, 10000), makeEvent('pause', 90, 40000)]);
+        expect(sessions).toEqual([{ videoId: 'v1', videoTitle: 'Video v1', startedAt: START, watchedSeconds: 30 }]);
+    });
+
+    it('falls back to the clock when a position is missing', () => {
+        const sessions = buildWatchSessions([makeEvent('play', 0, null), makeEvent('finish', 45, 45000)]);
+        expect(sessions[0].watchedSeconds).toBe(45);
+    });
+
+    it('closes a play that is followed by another play of the same video', () => {
+        const sessions = buildWatchSessions([
+            makeEvent('play', 0, 0),
+            makeEvent('play', 20, 20000),
+            makeEvent('pause', 30, 30000),
+        ]);
+        expect(sessions.map(s => s.watchedSeconds)).toEqual([20, 10]);
+    });
+
+    it('keeps videos apart and sorts sessions by start', () => {
+        const sessions = buildWatchSessions([
+            makeEvent('play', 0, 0, 'a'),
+            makeEvent('play', 5, 0, 'b'),
+            makeEvent('pause', 10, 10000, 'a'),
+            makeEvent('error', 20, 15000, 'b'),
+        ]);
+        expect(sessions.map(s => [s.videoId, s.watchedSeconds])).toEqual([['a', 10], ['b', 15]]);
+    });
+
+    it('counts a play that was never closed, without watch time', () => {
+        const sessions = buildWatchSessions([makeEvent('play', 0, 0)]);
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0].watchedSeconds).toBe(0);
+    });
+
+    it('caps a session at one hour', () => {
+        const sessions = buildWatchSessions([makeEvent('play', 0, null), makeEvent('pause', 3 * 60 * 60, null)]);
+        expect(sessions[0].watchedSeconds).toBe(60 * 60);
+    });
+});
+
+describe('historyToCsv', () => {
+    it('writes a header and one row per event', () => {
+        const csv = historyToCsv([makeEvent('play', 0, 1499)]);
+        expect(csv.split('\n')).toEqual([
+            'timestamp,event,video_id,video_title,position_seconds,message',
+            '2024-01-01T17:00:00.000Z,play,v1,Video v1,1,',
+        ]);
+    });
+
+    it('quotes fields with commas, quotes or line breaks and leaves unknown positions empty', () => {
+        const event: WatchEvent = {
+            ...makeEvent('error', 0, null),
+            videoTitle: 'Cats, "dogs"',
+            message: 'Network\nerror',
+        };
+        expect(historyToCsv([event]).split('\n').slice(1).join('\n'))
+            .toBe('2024-01-01T17:00:00.000Z,error,v1,"Cats, ""dogs""",,"Network\nerror"');
+    });
+});
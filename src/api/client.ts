@@ -0,0 +1,75 @@
+// src/api/client.ts
+
+// Import app constants to read the API base URL from app config
+import Constants from 'expo-constants';
+
+// Default request timeout (matches the old inline fetch in ForYouScreen)
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Error thrown for any failed API request
+export class ApiError extends Error {
+    status: number | null; // HTTP status, or null for network/timeout/validation problems
+
+    constructor(message: string, status: number | null = null) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+    }
+}
+
+// Options accepted by apiRequest
+interface ApiRequestOptions {
+    method?: 'GET' | 'POST' | 'HEAD';
+    body?: unknown;       // Serialized as JSON when present
+    timeoutMs?: number;   // Defaults to 15 seconds
+}
+
+// Returns the API base URL for the current environment, without a trailing slash.
+// EXPO_PUBLIC_API_BASE_URL (e.g. from .env.local) wins, so dev builds can point at a local mock server;
+// otherwise the value from app.json "extra.apiBaseUrl" is used.
+export const getApiBaseUrl = (): string => {
+    const configured = process.env.EXPO_PUBLIC_API_BASE_URL || Constants.expoConfig?.extra?.apiBaseUrl;
+    if (!configured) throw new ApiError('API base URL is not configured.');
+    return String(configured).replace(/\/+$/, '');
+};
+
+// Sends a request to the backend and returns the raw Response (throws ApiError on timeout or non-2xx)
+export const apiFetch = async (path: string, options: ApiRequestOptions = {}): Promise<Response> => {
+    const { method = 'GET', body, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+    // Cancel the request if it takes too long
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const response = await fetch(`${getApiBaseUrl()}${path}`, {
+            method,
+            headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+            signal: controller.signal,
+        });
+
+        if (!response.ok) {
+            // Use the backend's error message when it sends one
+            const errorData = await response.json().catch(() => null);
+            throw new ApiError(errorData?.error || `HTTP Error: ${response.status}`, response.status);
+        }
+        return response;
+    } catch (err: any) {
+        if (err instanceof ApiError) throw err;
+        if (err?.name === 'AbortError') throw new ApiError('Request timed out.');
+        throw new ApiError(err?.message || 'Network request failed.');
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+// Sends a request and parses the JSON response body
+export const apiRequest = async (path: string, options: ApiRequestOptions = {}): Promise<unknown> => {
+    const response = await apiFetch(path, options);
+    try {
+        return await response.json();
+    } catch {
+        throw new ApiError('Response was not valid JSON.', response.status);
+    }
+};
@@ -0,0 +1,109 @@
+// src/api/payments.ts
+
+import { apiFetch, apiRequest, ApiError } from './client';
+import { isObject, optionalNumber, optionalString, requireString, ValidationResult } from './schema';
+
+// Statuses the confirm endpoint uses to say a payment is not (or no longer) valid:
+// 400 unknown or unpaid payment intent, 402 payment not completed, 403 paid by another user, 410 refunded or revoked.
+// Anything else (404, 429, 5xx...) says nothing about the payment and is handled like a network problem.
+const PAYMENT_REJECTED_STATUSES = [400, 402, 403, 410];
+
+// User and device details sent when creating a payment
+export interface CreatePaymentRequest {
+    userId: string;                // Firebase user ID
+    userName: string;              // Display name
+    userEmail: string;             // Email for the receipt
+    deviceInfo: string;            // Device details as a JSON string
+    appVersion: string;            // App version
+    purchaseType: string;          // What is being bought
+    planId: string;                // Plan from the catalogue
+    promoCode?: string;            // Promo code the parent entered, if any
+}
+
+// What the backend returns for a new payment intent
+export interface CreatePaymentResponse {
+    clientSecret: string;          // Secret used by the Stripe payment sheet
+    paymentIntentId: string;       // Stripe payment intent ID
+    amount?: number;               // Amount in the smallest currency unit
+}
+
+// What the backend may return when it confirms a payment
+export interface ConfirmPaymentResponse {
+    expiresAt: string | null;      // When a subscription runs out (null = not sent or never)
+}
+
+// A purchase the backend has confirmed for a user (GET /purchases)
+export interface RemotePurchase {
+    paymentIntentId: string;       // Stripe payment intent ID
+    purchaseType: string | null;   // What was bought
+    planId: string | null;         // Plan that was bought (null for the original one-time unlock)
+    amount: number | null;         // Amount in cents
+    createdAt: string;             // ISO timestamp of the payment
+    expiresAt: string | null;      // When a subscription runs out (null = never)
+}
+
+// Body of the confirm-payment request
+export interface ConfirmPaymentRequest {
+    paymentIntentId: string;       // Stripe payment intent ID
+    userId: string;                // Firebase user ID
+}
+
+// Creates a payment intent on the backend
+export const createPayment = async (request: CreatePaymentRequest): Promise<CreatePaymentResponse> => {
+    const data = await apiRequest('/create-payment', { method: 'POST', body: request });
+    if (!isObject(data)) throw new ApiError('Unexpected response from the payment service.');
+
+    const issues: string[] = [];
+    const response: CreatePaymentResponse = {
+        clientSecret: requireString(data, 'clientSecret', issues),
+        paymentIntentId: requireString(data, 'paymentIntentId', issues),
+        amount: optionalNumber(data, 'amount', issues),
+    };
+    if (issues.length > 0) throw new ApiError(`Invalid payment response: ${issues.join(', ')}`);
+    return response;
+};
+
+// True when a confirmPayment error means the backend refused the payment itself
+export const isPaymentRejected = (error: unknown): boolean =>
+    error instanceof ApiError && error.status !== null && PAYMENT_REJECTED_STATUSES.includes(error.status);
+
+// Tells the backend a payment went through (throws ApiError if it could not be confirmed).
+// The body is optional; subscriptions may come back with their current end date.
+export const confirmPayment = async (request: ConfirmPaymentRequest): Promise<ConfirmPaymentResponse> => {
+    const response = await apiFetch('/confirm-payment', { method: 'POST', body: request });
+    const data = await response.json().catch(() => null);
+    const issues: string[] = [];
+    const expiresAt = isObject(data) ? optionalString(data, 'expiresAt', issues) : undefined;
+    return { expiresAt: issues.length === 0 && expiresAt ? expiresAt : null };
+};
+
+// Validates one purchase from GET /purchases
+export const validatePurchase = (raw: unknown): ValidationResult<RemotePurchase> => {
+    if (!isObject(raw)) return { ok: false, issues: ['item is not an object'] };
+
+    const issues: string[] = [];
+    const purchase: RemotePurchase = {
+        paymentIntentId: requireString(raw, 'paymentIntentId', issues),
+        purchaseType: optionalString(raw, 'purchaseType', issues) ?? null,
+        planId: optionalString(raw, 'planId', issues) ?? null,
+        amount: optionalNumber(raw, 'amount', issues) ?? null,
+        createdAt: requireString(raw, 'createdAt', issues),
+        expiresAt: optionalString(raw, 'expiresAt', issues) ?? null,
+    };
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: purchase };
+};
+
+// Fetches every purchase the backend has confirmed for the user, newest first (works on a new device or after a reinstall).
+// Malformed items are dropped and reported.
+export const fetchPurchases = async (userId: string): Promise<RemotePurchase[]> => {
+    const data = await apiRequest(`/purchases?userId=${encodeURIComponent(userId)}`);
+    if (!isObject(data) || !Array.isArray(data.purchases)) throw new ApiError('Unexpected response from the payment service.');
+
+    const purchases: RemotePurchase[] = [];
+    data.purchases.forEach((raw, index) => {
+        const result = validatePurchase(raw);
+        if (result.ok) purchases.push(result.value);
+        else console.warn(`[fetchPurchases] Dropped malformed purchase at ${index}:`, result.issues);
+    });
+    return purchases.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+};
@@ -0,0 +1,78 @@
+// src/api/plans.ts
+
+import { apiRequest, ApiError } from './client';
+import { isObject, optionalNumber, optionalString, requireString, ValidationResult } from './schema';
+
+// How a plan is paid for
+export type PlanBilling = 'one-time' | 'monthly' | 'yearly';
+
+// One plan from the backend's catalogue
+export interface Plan {
+    id: string;                    // Plan ID sent with create-payment
+    name: string;                  // Display name, e.g. "Premium Yearly"
+    description?: string;          // Optional short pitch
+    billing: PlanBilling;          // One-time unlock or subscription period
+    price: number;                 // Price in the smallest currency unit (cents)
+    currency: string;              // ISO currency code, e.g. "usd"
+    selectionLimit: number | null; // Approved videos allowed per child (null = unlimited)
+}
+
+// GET /plans after validation
+export interface PlanCatalogue {
+    plans: Plan[];                 // Plans that passed validation, in the backend's order
+    freeSelectionLimit: number;    // Approved videos allowed without a plan
+}
+
+// Free selections when the backend doesn't say (matches the old hard-coded limit)
+export const DEFAULT_FREE_SELECTIONS = 5;
+
+const BILLING_VALUES: PlanBilling[] = ['one-time', 'monthly', 'yearly'];
+
+// Validates one raw plan
+export const validatePlan = (raw: unknown): ValidationResult<Plan> => {
+    if (!isObject(raw)) return { ok: false, issues: ['item is not an object'] };
+
+    const issues: string[] = [];
+    const billing = requireString(raw, 'billing', issues) as PlanBilling;
+    if (billing && !BILLING_VALUES.includes(billing)) issues.push(`"billing" must be one of ${BILLING_VALUES.join(', ')}`);
+
+    const price = optionalNumber(raw, 'price', issues);
+    if (price === undefined) issues.push('"price" is required');
+
+    const plan: Plan = {
+        id: requireString(raw, 'id', issues),
+        name: requireString(raw, 'name', issues),
+        description: optionalString(raw, 'description', issues),
+        billing,
+        price: price ?? 0,
+        currency: optionalString(raw, 'currency', issues) ?? 'usd',
+        selectionLimit: optionalNumber(raw, 'selectionLimit', issues) ?? null, // Missing means unlimited
+    };
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: plan };
+};
+
+// Fetches the plan catalogue; malformed plans are dropped and reported
+export const fetchPlans = async (): Promise<PlanCatalogue> => {
+    const data = await apiRequest('/plans');
+    if (!isObject(data) || !Array.isArray(data.plans)) throw new ApiError('Unexpected response from the plan service.');
+
+    const plans: Plan[] = [];
+    data.plans.forEach((raw, index) => {
+        const result = validatePlan(raw);
+        if (result.ok) plans.push(result.value);
+        else console.warn(`[fetchPlans] Dropped malformed plan at ${index}:`, result.issues);
+    });
+
+    const freeSelectionLimit = typeof data.freeSelectionLimit === 'number' && data.freeSelectionLimit >= 0
+        ? data.freeSelectionLimit
+        : DEFAULT_FREE_SELECTIONS;
+    return { plans, freeSelectionLimit };
+};
+
+// Formats a plan's price as "$9.99", "$2.99 / month" or "$24.99 / year"
+export const formatPlanPrice = (plan: Plan): string => {
+    const amount = `${plan.currency.toLowerCase() === 'usd' ? '$' : `${plan.currency.toUpperCase()} `}${(plan.price / 100).toFixed(2)}`;
+    if (plan.billing === 'monthly') return `${amount} / month`;
+    if (plan.billing === 'yearly') return `${amount} / year`;
+    return amount;
+};
@@ -0,0 +1,41 @@
+// src/api/schema.ts
+// Small runtime checks for data coming back from the backend.
+
+// Result of validating one value: either the typed value or a list of problems
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+// Returns true for plain objects
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks that a required field is a non-empty string
+export const requireString = (obj: Record<string, unknown>, field: string, issues: string[]): string => {
+    const value = obj[field];
+    if (typeof value !== 'string' || value.length === 0) {
+        issues.push(`"${field}" must be a non-empty string`);
+        return '';
+    }
+    return value;
+};
+
+// Checks that an optional field, when present, is a string (null is treated as missing)
+export const optionalString = (obj: Record<string, unknown>, field: string, issues: string[]): string | undefined => {
+    const value = obj[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') {
+        issues.push(`"${field}" must be a string`);
+        return undefined;
+    }
+    return value;
+};
+
+// Checks that an optional field, when present, is a finite number (null is treated as missing)
+export const optionalNumber = (obj: Record<string, unknown>, field: string, issues: string[]): number | undefined => {
+    const value = obj[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !isFinite(value)) {
+        issues.push(`"${field}" must be a number`);
+        return undefined;
+    }
+    return value;
+};
@@ -0,0 +1,114 @@
+// src/api/videos.ts
+
+import { apiRequest, ApiError } from './client';
+import { isObject, optionalNumber, optionalString, requireString, ValidationResult } from './schema';
+
+// Define what a video object looks like
+export interface VideoData {
+    id: string;                    // Unique video ID
+    url: string;                   // Video file URL
+    thumbnailUrl?: string | null;  // Optional thumbnail image URL
+    filename?: string;             // Optional filename
+    duration?: number;             // Optional video length in seconds
+    formattedDuration?: string;    // Optional formatted time like "2:30"
+}
+
+// A catalogue item that failed validation
+export interface InvalidVideoItem {
+    index: number;                 // Position in the response array
+    issues: string[];              // What was wrong with it
+}
+
+// One page of GET /videos after validation
+export interface VideoListResponse {
+    videos: VideoData[];           // Items that passed validation
+    invalidItems: InvalidVideoItem[]; // Items that were dropped
+    nextCursor: string | null;     // Cursor for the next page, or null when this was the last one
+}
+
+// Options for fetching a page of the catalogue
+export interface FetchVideosOptions {
+    cursor?: string | null;        // Cursor returned by the previous page (omit for the first page)
+    limit?: number;                // Page size
+    ids?: string[];                // Only return these video IDs (used for approved lists)
+}
+
+// Default number of videos per page
+export const VIDEO_PAGE_SIZE = 20;
+
+// Validates one raw catalogue item
+export const validateVideo = (raw: unknown): ValidationResult<VideoData> => {
+    if (!isObject(raw)) return { ok: false, issues: ['item is not an object'] };
+
+    const issues: string[] = [];
+    const video: VideoData = {
+        id: requireString(raw, 'id', issues),
+        url: requireString(raw, 'url', issues),
+        thumbnailUrl: optionalString(raw, 'thumbnailUrl', issues) ?? null,  // Ensure thumbnailUrl is null if missing
+        filename: optionalString(raw, 'filename', issues),
+        duration: optionalNumber(raw, 'duration', issues),
+        formattedDuration: optionalString(raw, 'formattedDuration', issues),
+    };
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: video };
+};
+
+// Fetches one page of the video catalogue and validates every item; malformed items are reported, not returned
+export const fetchVideos = async (options: FetchVideosOptions = {}): Promise<VideoListResponse> => {
+    const { cursor, limit = VIDEO_PAGE_SIZE, ids } = options;
+
+    // Build the query string
+    const params = [`limit=${limit}`];
+    if (cursor) params.push(`cursor=${encodeURIComponent(cursor)}`);
+    if (ids && ids.length > 0) params.push(`ids=${ids.map(encodeURIComponent).join(',')}`);
+    const data = await apiRequest(`/videos?${params.join('&')}`);
+
+    // The backend sends either { videos: [...], nextCursor } or a bare array (a single, complete page)
+    const items = isObject(data) ? data.videos : data;
+    if (!Array.isArray(items)) throw new ApiError('Unexpected response from the video service.');
+    const nextCursor = isObject(data) && typeof data.nextCursor === 'string' && data.nextCursor ? data.nextCursor : null;
+
+    const videos: VideoData[] = [];
+    const invalidItems: InvalidVideoItem[] = [];
+    items.forEach((raw, index) => {
+        const result = validateVideo(raw);
+        if (result.ok) videos.push(result.value);
+        else invalidItems.push({ index, issues: result.issues });
+    });
+
+    if (invalidItems.length > 0) {
+        console.warn(`[fetchVideos] Dropped ${invalidItems.length} malformed video(s):`, invalidItems);
+    }
+    return { videos, invalidItems, nextCursor };
+};
+
+// Fetches specific videos by ID, in batches, following cursors until every batch is exhausted
+export const fetchVideosByIds = async (ids: string[]): Promise<VideoData[]> => {
+    const BATCH_SIZE = 50;
+    const found: VideoData[] = [];
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        let cursor: string | null = null;
+        do {
+            const page: VideoListResponse = await fetchVideos({ ids: batch, cursor, limit: BATCH_SIZE });
+            found.push(...page.videos.filter(v => batch.includes(v.id))); // Guard against servers that ignore "ids"
+            cursor = page.nextCursor;
+        } while (cursor);
+    }
+    return mergeVideos([], found);
+};
+
+// Appends videos to a list, de-duplicating by ID (a newer copy replaces the older one in place)
+export const mergeVideos = (existing: VideoData[], incoming: VideoData[]): VideoData[] => {
+    const indexById = new Map(existing.map((v, i) => [v.id, i]));
+    const merged = [...existing];
+    for (const video of incoming) {
+        const index = indexById.get(video.id);
+        if (index === undefined) {
+            indexById.set(video.id, merged.length);
+            merged.push(video);
+        } else {
+            merged[index] = video;
+        }
+    }
+    return merged;
+};
@@ -0,0 +1,93 @@
+// src/auditLog.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist the log across app sessions
+import { useEffect, useState } from 'react';
+// Signed-in parent account, recorded with each entry
+import { auth } from '@/firebaseConfig';
+
+// Upper limit on stored entries, so the log stays small (oldest are dropped first)
+const MAX_AUDIT_ENTRIES = 500;
+
+// Kinds of parent actions that are recorded
+export type AuditAction =
+    | 'restricted-mode'   // Approved-only mode turned on or off
+    | 'video-approval'    // Videos approved or removed
+    | 'pin-saved'         // Parent PIN set, changed or reset
+    | 'pin-failed'        // Wrong PIN entered (and lockouts it started)
+    | 'settings-cleared'  // All settings reset
+    | 'purchase'          // Premium plan bought
+    | 'purchase-rejected'; // Payment refused by the payment service
+
+// One parent action, stored device-wide under 'auditLog' (oldest first).
+// It is kept when settings are cleared, so a reset still shows up in the log.
+export interface AuditEntry {
+    action: AuditAction;
+    timestamp: number;          // When it happened (ms)
+    profileId: string | null;   // Child profile it affected (null for account-wide actions)
+    profileName: string | null; // Profile name at the time, so the log still reads well after a rename or delete
+    detail: string;             // What changed, in words
+    account: string | null;     // Email of the signed-in parent account
+    parentName: string | null;  // Parent who passed the check for this action (null if they weren't asked or it wasn't needed)
+}
+
+// Writes run one after another so two quick actions never overwrite each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Screens showing the log, told when an entry is added
+const listeners = new Set<() => void>();
+
+// Parent who opened the running parent session (the account may be shared by both parents)
+let currentParent: string | null = null;
+
+// Sets who later entries are recorded for (null when the parent session ends)
+export const setAuditParent = (parentName: string | null): void => {
+    currentParent = parentName;
+};
+
+// Loads the whole log (oldest entry first)
+export const loadAuditLog = async (): Promise<AuditEntry[]> => {
+    try {
+        const stored = await AsyncStorage.getItem('auditLog');
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error('Failed to load audit log', e);
+        return [];
+    }
+};
+
+// Appends a parent action to the log, stamped with the time, the signed-in account and the parent in the session
+export const recordAuditEvent = (entry: Omit<AuditEntry, 'timestamp' | 'account' | 'parentName'>): Promise<void> => {
+    const fullEntry: AuditEntry = {
+        ...entry,
+        timestamp: Date.now(),
+        account: auth.currentUser?.email ?? null,
+        parentName: currentParent,
+    };
+    writeQueue = writeQueue
+        .then(async () => {
+            const log = await loadAuditLog();
+            log.push(fullEntry);
+            await AsyncStorage.setItem('auditLog', JSON.stringify(log.slice(-MAX_AUDIT_ENTRIES)));
+            listeners.forEach(listener => listener());
+        })
+        .catch(e => console.error('Failed to record audit event', e));
+    return writeQueue;
+};
+
+// The log, newest entry first, kept up to date while the screen is open
+export const useAuditLog = (): AuditEntry[] => {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+    useEffect(() => {
+        const reload = () => {
+            loadAuditLog().then(log => setEntries(log.reverse()));
+        };
+        reload();
+        listeners.add(reload);
+        return () => {
+            listeners.delete(reload);
+        };
+    }, []);
+
+    return entries;
+};
@@ -0,0 +1,124 @@
+// src/catalogueCache.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist the last good video list
+import * as FileSystem from 'expo-file-system/legacy'; // Used to keep thumbnail copies on the device
+// Video type from the API client
+import { VideoData } from './api/videos';
+
+// Folder inside the app's cache directory where thumbnail copies are kept (the OS may clear it)
+const THUMBNAILS_DIR = `${FileSystem.cacheDirectory}thumbnails/`;
+
+// Upper limit on how many videos are saved, so the cache stays small
+const MAX_CACHED_VIDEOS = 200;
+
+// Thumbnail updates run one after another so two saves never write the map at the same time
+let thumbnailQueue: Promise<void> = Promise.resolve();
+
+// One thumbnail copy, saved under 'catalogueThumbnails'
+interface CachedThumbnail {
+    url: string; // Remote URL the copy was made from (a changed URL means the copy is stale)
+    uri: string; // Local file
+}
+
+// The last video list loaded from the backend, saved under 'catalogueCache'
+export interface CachedCatalogue {
+    videos: VideoData[];        // Videos in feed order (remote URLs)
+    nextCursor: string | null;  // Cursor for the page after the saved ones
+    savedAt: string;            // ISO timestamp
+}
+
+// Loads the saved video list, if there is one
+export const loadCachedCatalogue = async (): Promise<CachedCatalogue | null> => {
+    try {
+        const stored = await AsyncStorage.getItem('catalogueCache');
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error("Failed to load cached catalogue", e);
+        return null;
+    }
+};
+
+// Turns the saved thumbnail entries into remote URL -> local file (so a changed thumbnail URL misses the cache)
+const toUriMap = (thumbnails: { [videoId: string]: CachedThumbnail }): { [thumbnailUrl: string]: string } => {
+    const uris: { [thumbnailUrl: string]: string } = {};
+    for (const entry of Object.values(thumbnails)) uris[entry.url] = entry.uri;
+    return uris;
+};
+
+// Loads the thumbnail copies as remote URL -> local file
+export const loadCachedThumbnails = async (): Promise<{ [thumbnailUrl: string]: string }> => {
+    try {
+        const stored = await AsyncStorage.getItem('catalogueThumbnails');
+        return toUriMap(stored ? JSON.parse(stored) : {});
+    } catch (e) {
+        return {};
+    }
+};
+
+// Saves the video list, then copies any new thumbnails and drops unused ones.
+// Resolves with the new remote URL -> local file map once the thumbnails are done, or null if it didn't change.
+export const saveCatalogue = async (videos: VideoData[], nextCursor: string | null): Promise<{ [thumbnailUrl: string]: string } | null> => {
+    const saved = videos.slice(0, MAX_CACHED_VIDEOS);
+    const catalogue: CachedCatalogue = {
+        videos: saved,
+        // Cutting the list short means the cursor no longer follows the last saved video
+        nextCursor: saved.length < videos.length ? null : nextCursor,
+        savedAt: new Date().toISOString(),
+    };
+    await AsyncStorage.setItem('catalogueCache', JSON.stringify(catalogue));
+    const pass = thumbnailQueue.then(() => cacheThumbnails(saved));
+    thumbnailQueue = pass.then(() => {}, e => console.warn("Failed to cache thumbnails", e));
+    return pass;
+};
+
+// Downloads thumbnails that are missing or out of date and deletes the ones no longer in the list.
+// Copies already on file are kept without touching them, so paging through the feed stays cheap.
+// Returns the new URL -> file map, or null when nothing changed.
+const cacheThumbnails = async (videos: VideoData[]): Promise<{ [thumbnailUrl: string]: string } | null> => {
+    const stored = await AsyncStorage.getItem('catalogueThumbnails');
+    let previous: { [videoId: string]: CachedThumbnail } = stored ? JSON.parse(stored) : {};
+    const next: { [videoId: string]: CachedThumbnail } = {};
+    let changed = false;
+
+    // The OS may clear the cache folder; then every copy is gone
+    if (!(await FileSystem.getInfoAsync(THUMBNAILS_DIR)).exists) {
+        changed = Object.keys(previous).length > 0;
+        previous = {};
+        await FileSystem.makeDirectoryAsync(THUMBNAILS_DIR, { intermediates: true }).catch(() => {});
+    }
+
+    for (const video of videos) {
+        if (!video.thumbnailUrl) continue;
+        const existing = previous[video.id];
+        if (existing && existing.url === video.thumbnailUrl) {
+            next[video.id] = existing;
+            continue;
+        }
+
+        // A failed thumbnail is simply left out; the feed falls back to the remote URL
+        const target = `${THUMBNAILS_DIR}${encodeURIComponent(video.id)}.jpg`;
+        const uri = await FileSystem.downloadAsync(video.thumbnailUrl, target)
+            .then(r => (r.status >= 200 && r.status < 300 ? r.uri : null))
+            .catch(() => null);
+        if (uri) {
+            next[video.id] = { url: video.thumbnailUrl, uri };
+            changed = true;
+        }
+    }
+
+    // Remove copies for videos that dropped out of the list
+    for (const [videoId, entry] of Object.entries(previous)) {
+        if (next[videoId]) continue;
+        await FileSystem.deleteAsync(entry.uri, { idempotent: true }).catch(() => {});
+        changed = true;
+    }
+    if (!changed) return null;
+    await AsyncStorage.setItem('catalogueThumbnails', JSON.stringify(next));
+    return toUriMap(next);
+};
+
+// Removes the saved list and all thumbnail copies
+export const clearCatalogueCache = async (): Promise<void> => {
+    await AsyncStorage.multiRemove(['catalogueCache', 'catalogueThumbnails']);
+    await FileSystem.deleteAsync(THUMBNAILS_DIR, { idempotent: true }).catch(() => {});
+};
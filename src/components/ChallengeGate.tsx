@@ -0,0 +1,164 @@
+// src/components/ChallengeGate.tsx
+
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { GateProps } from '@/src/parentalGates';
+
+// A question with a whole-number answer
+interface Challenge {
+    question: string;
+    answer: number;
+}
+
+const ONES = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Random whole number from min to max (both included)
+const randomInt = (min: number, max: number): number => min + Math.floor(Math.random() * (max - min + 1));
+
+// Spells out 21–99 as words ("forty-seven")
+const spellNumber = (n: number): string => {
+    const tens = TENS[Math.floor(n / 10)];
+    const ones = ONES[n % 10];
+    return ones ? `${tens}-${ones}` : tens;
+};
+
+// Makes a question that young children can't answer: either a two-digit multiplication,
+// or an addition written out in words that has to be answered in digits
+const createChallenge = (): Challenge => {
+    if (Math.random() < 0.5) {
+        const a = randomInt(12, 19);
+        const b = randomInt(3, 9);
+        return { question: `What is ${a} × ${b}?`, answer: a * b };
+    }
+    const a = randomInt(21, 99);
+    const b = randomInt(21, 99);
+    return { question: `Type in digits: ${spellNumber(a)} plus ${spellNumber(b)}`, answer: a + b };
+};
+
+// "Grown-up check": a random arithmetic or word question instead of a PIN to remember
+const ChallengeGate: React.FC<GateProps> = ({ instruction, onPassed, onCancel }) => {
+    const [challenge, setChallenge] = useState<Challenge>(createChallenge); // Question being asked
+    const [answer, setAnswer] = useState<string>(''); // Answer as typed
+
+    // Swaps in a fresh question
+    const nextChallenge = () => {
+        setChallenge(createChallenge());
+        setAnswer('');
+    };
+
+    // Checks the answer; a wrong one gets a new question so it can't be guessed one number at a time
+    const handleCheck = () => {
+        if (Number(answer.trim()) === challenge.answer) {
+            onPassed();
+            return;
+        }
+        nextChallenge();
+        Alert.alert('Not Quite', 'That answer is not right. Here is a new question.');
+    };
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>Grown-up Check</Text>
+            <Text style={styles.instruction}>{instruction}</Text>
+
+            <Text style={styles.question}>{challenge.question}</Text>
+
+            <TextInput
+                style={styles.input}
+                value={answer}
+                onChangeText={setAnswer}
+                placeholder="Answer"
+                keyboardType="number-pad"
+                maxLength={4}
+                autoFocus={true}
+                onSubmitEditing={handleCheck}
+            />
+
+            <TouchableOpacity
+                style={[styles.checkButton, !answer && styles.checkButtonDisabled]}
+                onPress={handleCheck}
+                disabled={!answer}
+            >
+                <Text style={styles.checkButtonText}>Check</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={nextChallenge}>
+                <Text style={styles.linkText}>Different question</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={onCancel}>
+                <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+// Same look as the PIN keypad screen
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 20,
+        backgroundColor: '#f5f5f5',
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 15,
+        color: '#333',
+    },
+    instruction: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+        marginBottom: 30,
+    },
+    question: {
+        fontSize: 22,
+        fontWeight: '600',
+        color: '#333',
+        textAlign: 'center',
+        marginBottom: 20,
+    },
+    input: {
+        width: '60%',
+        maxWidth: 200,
+        height: 50,
+        borderWidth: 1,
+        borderColor: '#ccc',
+        borderRadius: 10,
+        backgroundColor: '#fff',
+        fontSize: 22,
+        textAlign: 'center',
+        marginBottom: 25,
+    },
+    checkButton: {
+        backgroundColor: '#6200ee',
+        paddingVertical: 14,
+        paddingHorizontal: 50,
+        borderRadius: 30,
+    },
+    checkButtonDisabled: {
+        backgroundColor: '#b9a3e8',
+    },
+    checkButtonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    linkButton: {
+        marginTop: 20,
+    },
+    linkText: {
+        fontSize: 16,
+        color: '#6200ee',
+    },
+    cancelText: {
+        fontSize: 16,
+        color: '#555',
+    },
+});
+
+export default ChallengeGate;
@@ -0,0 +1,105 @@
+// src/components/HoldGate.tsx
+
+import React, { useRef } from 'react';
+import { Animated, Easing, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { GateProps } from '@/src/parentalGates';
+
+// How long the button has to be held down
+const HOLD_MS = 3000;
+
+// "Hold for 3 seconds" check for low-stakes actions: small children let go long before the bar fills
+const HoldGate: React.FC<GateProps> = ({ instruction, onPassed, onCancel }) => {
+    const progress = useRef(new Animated.Value(0)).current; // 0 → 1 while the button is held
+
+    // Starts filling the bar; passing only happens if the finger stays down the whole time
+    const handlePressIn = () => {
+        Animated.timing(progress, {
+            toValue: 1,
+            duration: HOLD_MS,
+            easing: Easing.linear,
+            useNativeDriver: false, // Animates width
+        }).start(({ finished }) => {
+            if (finished) onPassed();
+        });
+    };
+
+    // Letting go early empties the bar again
+    const handlePressOut = () => {
+        progress.stopAnimation();
+        Animated.timing(progress, { toValue: 0, duration: 200, useNativeDriver: false }).start();
+    };
+
+    const fillWidth = progress.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] });
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>Grown-up Check</Text>
+            <Text style={styles.instruction}>{instruction}</Text>
+
+            <Pressable style={styles.holdButton} onPressIn={handlePressIn} onPressOut={handlePressOut}>
+                <Animated.View style={[styles.holdFill, { width: fillWidth }]} />
+                <Text style={styles.holdText}>Press and hold for 3 seconds</Text>
+            </Pressable>
+
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+// Same look as the PIN keypad screen
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 20,
+        backgroundColor: '#f5f5f5',
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 15,
+        color: '#333',
+    },
+    instruction: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+        marginBottom: 30,
+    },
+    holdButton: {
+        width: '80%',
+        maxWidth: 300,
+        height: 64,
+        borderRadius: 32,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#6200ee',
+        justifyContent: 'center',
+        alignItems: 'center',
+        overflow: 'hidden', // Keeps the fill inside the rounded ends
+    },
+    holdFill: {
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        backgroundColor: '#d9c8ff',
+    },
+    holdText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#6200ee',
+    },
+    cancelButton: {
+        marginTop: 30,
+    },
+    cancelText: {
+        fontSize: 16,
+        color: '#555',
+    },
+});
+
+export default HoldGate;
@@ -0,0 +1,75 @@
+// src/components/ParentPicker.tsx
+
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// Props for the "Who is this?" step
+interface ParentPickerProps {
+    names: string[];                   // Parents set up in Settings
+    onPicked: (name: string) => void;  // Called with the parent who tapped their name
+    onCancel: () => void;              // Called when the parent backs out instead
+}
+
+// Shown after a passed parental check when more than one parent shares the device,
+// so the activity log can say which of them made a change
+const ParentPicker: React.FC<ParentPickerProps> = ({ names, onPicked, onCancel }) => (
+    <View style={styles.container}>
+        <Text style={styles.title}>Who Is This?</Text>
+        <Text style={styles.instruction}>Changes you make are recorded under your name in the activity log.</Text>
+
+        {names.map(name => (
+            <TouchableOpacity key={name} style={styles.nameButton} onPress={() => onPicked(name)}>
+                <Text style={styles.nameButtonText}>{name}</Text>
+            </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity style={styles.linkButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+    </View>
+);
+
+// Same look as the other parental checks
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 20,
+        backgroundColor: '#f5f5f5',
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 15,
+        color: '#333',
+    },
+    instruction: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+        marginBottom: 30,
+    },
+    nameButton: {
+        width: '70%',
+        backgroundColor: '#6200ee',
+        paddingVertical: 14,
+        borderRadius: 30,
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    nameButtonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    linkButton: {
+        marginTop: 20,
+    },
+    cancelText: {
+        fontSize: 16,
+        color: '#555',
+    },
+});
+
+export default ParentPicker;
@@ -0,0 +1,71 @@
+// src/components/PasscodeKindPicker.tsx
+
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { MAX_PIN_LENGTH, MIN_PASSCODE_LENGTH, MIN_PIN_LENGTH, PasscodeKind } from '@/src/SettingsContext';
+
+interface PasscodeKindPickerProps {
+    value: PasscodeKind;
+    onChange: (kind: PasscodeKind) => void;
+}
+
+// The two choices, with the rule each one follows
+const OPTIONS: { kind: PasscodeKind; label: string; hint: string }[] = [
+    { kind: 'numeric', label: 'PIN', hint: `${MIN_PIN_LENGTH}–${MAX_PIN_LENGTH} digits` },
+    { kind: 'alphanumeric', label: 'Passcode', hint: `${MIN_PASSCODE_LENGTH}+ letters & numbers` },
+];
+
+// Segmented choice between a digits-only PIN and an alphanumeric passcode (used when a new one is chosen)
+const PasscodeKindPicker: React.FC<PasscodeKindPickerProps> = ({ value, onChange }) => (
+    <View style={styles.row}>
+        {OPTIONS.map(option => (
+            <TouchableOpacity
+                key={option.kind}
+                style={[styles.option, option.kind === value && styles.optionSelected]}
+                onPress={() => onChange(option.kind)}
+            >
+                <Text style={[styles.label, option.kind === value && styles.textSelected]}>{option.label}</Text>
+                <Text style={[styles.hint, option.kind === value && styles.textSelected]}>{option.hint}</Text>
+            </TouchableOpacity>
+        ))}
+    </View>
+);
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        width: '100%',
+        marginBottom: 15,
+    },
+    option: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 10,
+        marginHorizontal: 4,
+        borderRadius: 15,
+        borderWidth: 1,
+        borderColor: '#eee',
+        backgroundColor: '#fff',
+    },
+    optionSelected: {
+        backgroundColor: '#007AFF',
+        borderColor: '#007AFF',
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        color: '#333',
+        fontFamily: 'AppFont',
+    },
+    hint: {
+        fontSize: 12,
+        color: '#666',
+        marginTop: 2,
+        fontFamily: 'AppFont',
+    },
+    textSelected: {
+        color: '#fff',
+    },
+});
+
+export default PasscodeKindPicker;
@@ -0,0 +1,45 @@
+// src/components/PinGate.tsx
+
+import React, { useState } from 'react';
+import { Alert } from 'react-native';
+import PinInput from '@/src/PinInput';
+import { GateProps } from '@/src/parentalGates';
+import { trustedNow } from '@/src/schedule';
+import { useSettings } from '@/src/SettingsContext';
+
+// Parent PIN check on the app's keypad.
+// Uses the same verifyPin (and wrong-PIN lockout) as PinEntryScreen.
+const PinGate: React.FC<GateProps> = ({ instruction, onPassed, onCancel }) => {
+    const { verifyPin, pinLockedUntil, remainingPinAttempts } = useSettings();
+    const [pinKey, setPinKey] = useState<number>(0); // Bumped to reset the keypad after a wrong PIN
+
+    // Checks the PIN and explains a wrong one the same way PinEntryScreen does
+    const handleSubmit = async (pin: string): Promise<void> => {
+        const wasLockedOut = pinLockedUntil !== null && pinLockedUntil > trustedNow();
+        if (await verifyPin(pin)) {
+            onPassed();
+            return;
+        }
+
+        setPinKey(k => k + 1); // Clear the dots for another try
+        const attemptsLeft = remainingPinAttempts - 1; // Context has counted this failure
+        if (wasLockedOut || attemptsLeft <= 0) {
+            Alert.alert('Too Many Attempts', 'PIN entry is locked for a while. Please try again later.');
+        } else {
+            Alert.alert('Incorrect PIN', `You have ${attemptsLeft} attempts remaining.`);
+        }
+    };
+
+    return (
+        <PinInput
+            key={pinKey}
+            title="Enter Parent PIN"
+            instruction={instruction}
+            onSubmit={handleSubmit}
+            onCancel={onCancel}
+            showCancel={true}
+        />
+    );
+};
+
+export default PinGate;
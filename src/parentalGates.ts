@@ -0,0 +1,40 @@
+// src/parentalGates.ts
+
+import React from 'react';
+import ChallengeGate from './components/ChallengeGate';
+import HoldGate from './components/HoldGate';
+import PinGate from './components/PinGate';
+import { GateStrength, meetsStrength, ParentalGateKind } from './SettingsContext';
+
+// Props every parental check receives
+export interface GateProps {
+    instruction: string; // What passing the check unlocks
+    onPassed: () => void; // Called once the check has been passed
+    onCancel: () => void; // Called when the check is dismissed
+}
+
+// One way of proving a grown-up is holding the phone
+export interface ParentalGate {
+    kind: ParentalGateKind;
+    strength: GateStrength; // Which actions it is good enough for
+    label: string; // Name shown in Settings
+    Component: React.FC<GateProps>; // Full-screen UI for the check
+}
+
+// Every check the app knows about, strongest first
+export const PARENTAL_GATES: { [kind in ParentalGateKind]: ParentalGate } = {
+    pin: { kind: 'pin', strength: 'high', label: 'Parent PIN', Component: PinGate },
+    challenge: { kind: 'challenge', strength: 'medium', label: 'Grown-up Question', Component: ChallengeGate },
+    hold: { kind: 'hold', strength: 'low', label: 'Hold for 3 Seconds', Component: HoldGate },
+};
+
+// Checks a parent can pick for parent screens in Settings (the hold gesture is only for low-stakes actions)
+export const SELECTABLE_GATES: ParentalGateKind[] = ['pin', 'challenge'];
+
+// Picks the check for an action needing `required`: low-stakes actions use the hold gesture,
+// everything else the parent's preferred check when it is strong enough, or the PIN when it isn't
+export const resolveGate = (required: GateStrength, preferred: ParentalGateKind): ParentalGate => {
+    if (required === 'low') return PARENTAL_GATES.hold;
+    const gate = PARENTAL_GATES[preferred];
+    return meetsStrength(gate.strength, required) ? gate : PARENTAL_GATES.pin;
+};
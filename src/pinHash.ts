@@ -0,0 +1,184 @@
+// src/pinHash.ts
+
+// Import secure random bytes generator from Expo (used for salts)
+import { getRandomBytes } from 'expo-crypto';
+
+// Current version of the stored PIN record format
+export const PIN_HASH_VERSION = 1;
+
+// Number of PBKDF2 rounds used for new hashes (kept modest because it runs in JS)
+const PBKDF2_ITERATIONS = 10000;
+
+// Length of the random salt and of the derived key, in bytes
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Shape of the PIN record saved to AsyncStorage under 'parentPin'
+export interface PinHashRecord {
+    v: number;          // Record format version
+    alg: 'pbkdf2-sha256'; // Hash algorithm used
+    iter: number;       // Number of PBKDF2 iterations
+    salt: string;       // Random salt, hex encoded
+    hash: string;       // Derived key, hex encoded
+}
+
+// ------------------ SHA-256 (pure JS, no native dependency) ------------------
+
+// Round constants used by SHA-256
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// Computes the SHA-256 digest of the given bytes
+const sha256 = (data: Uint8Array): Uint8Array => {
+    // Pad message: 0x80, zeros, then 64-bit big-endian bit length
+    const bitLength = data.length * 8;
+    const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(data);
+    padded[data.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+    // Initial hash values
+    let h0 = 0x6a09e667, h1 = 0xbb67ae85, h2 = 0x3c6ef372, h3 = 0xa54ff53a;
+    let h4 = 0x510e527f, h5 = 0x9b05688c, h6 = 0x1f83d9ab, h7 = 0x5be0cd19;
+    const w = new Uint32Array(64);
+
+    // Process each 64-byte block
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+        for (let i = 16; i < 64; i++) {
+            const s0 = ((w[i - 15] >>> 7) | (w[i - 15] << 25)) ^ ((w[i - 15] >>> 18) | (w[i - 15] << 14)) ^ (w[i - 15] >>> 3);
+            const s1 = ((w[i - 2] >>> 17) | (w[i - 2] << 15)) ^ ((w[i - 2] >>> 19) | (w[i - 2] << 13)) ^ (w[i - 2] >>> 10);
+            w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+        }
+
+        let a = h0, b = h1, c = h2, d = h3, e = h4, f = h5, g = h6, h = h7;
+        for (let i = 0; i < 64; i++) {
+            const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + S1 + ch + K[i] + w[i]) >>> 0;
+            const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (S0 + maj) >>> 0;
+            h = g; g = f; f = e; e = (d + t1) >>> 0;
+            d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+        }
+
+        h0 = (h0 + a) >>> 0; h1 = (h1 + b) >>> 0; h2 = (h2 + c) >>> 0; h3 = (h3 + d) >>> 0;
+        h4 = (h4 + e) >>> 0; h5 = (h5 + f) >>> 0; h6 = (h6 + g) >>> 0; h7 = (h7 + h) >>> 0;
+    }
+
+    // Write the final hash out as bytes
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    [h0, h1, h2, h3, h4, h5, h6, h7].forEach((value, i) => outView.setUint32(i * 4, value));
+    return out;
+};
+
+// Computes HMAC-SHA256 of a message with the given key
+const hmacSha256 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+    // Keys longer than the block size are hashed first
+    const blockKey = new Uint8Array(64);
+    blockKey.set(key.length > 64 ? sha256(key) : key);
+
+    const inner = new Uint8Array(64 + message.length);
+    const outer = new Uint8Array(64 + 32);
+    for (let i = 0; i < 64; i++) {
+        inner[i] = blockKey[i] ^ 0x36;
+        outer[i] = blockKey[i] ^ 0x5c;
+    }
+    inner.set(message, 64);
+    outer.set(sha256(inner), 64);
+    return sha256(outer);
+};
+
+// Derives a key from a password with PBKDF2-HMAC-SHA256 (single block, 32 bytes; exported for the test vectors)
+export const pbkdf2Sha256 = (password: Uint8Array, salt: Uint8Array, iterations: number): Uint8Array => {
+    // First round uses salt || INT(1)
+    const firstInput = new Uint8Array(salt.length + 4);
+    firstInput.set(salt);
+    firstInput[salt.length + 3] = 1;
+
+    let u = hmacSha256(password, firstInput);
+    const result = new Uint8Array(u);
+    for (let i = 1; i < iterations; i++) {
+        u = hmacSha256(password, u);
+        for (let j = 0; j < KEY_BYTES; j++) result[j] ^= u[j];
+    }
+    return result;
+};
+
+// ------------------ Encoding helpers ------------------
+
+// Converts a string to UTF-8 bytes
+const toBytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+// Converts bytes to a lowercase hex string
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Converts a hex string back to bytes
+const fromHex = (hex: string): Uint8Array => {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    return bytes;
+};
+
+// Compares two strings without returning early on the first mismatch
+const constantTimeEquals = (a: string, b: string): boolean => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+// ------------------ Public API ------------------
+
+// Creates a new salted hash record for a PIN
+export const hashPin = async (pin: string): Promise<PinHashRecord> => {
+    const salt = getRandomBytes(SALT_BYTES);
+    const hash = pbkdf2Sha256(toBytes(pin), salt, PBKDF2_ITERATIONS);
+    return {
+        v: PIN_HASH_VERSION,
+        alg: 'pbkdf2-sha256',
+        iter: PBKDF2_ITERATIONS,
+        salt: toHex(salt),
+        hash: toHex(hash),
+    };
+};
+
+// Checks an entered PIN against a stored hash record
+export const verifyPinHash = async (pin: string, record: PinHashRecord): Promise<boolean> => {
+    const hash = pbkdf2Sha256(toBytes(pin), fromHex(record.salt), record.iter);
+    return constantTimeEquals(toHex(hash), record.hash);
+};
+
+// Turns a record into the string that gets persisted
+export const serializePinRecord = (record: PinHashRecord): string => JSON.stringify(record);
+
+// Parses a stored value; returns null if it is not a hash record (e.g. a legacy plain-text PIN)
+export const parsePinRecord = (stored: string): PinHashRecord | null => {
+    try {
+        const parsed = JSON.parse(stored);
+        if (
+            parsed && typeof parsed === 'object' &&
+            typeof parsed.v === 'number' && parsed.alg === 'pbkdf2-sha256' &&
+            typeof parsed.iter === 'number' && typeof parsed.salt === 'string' && typeof parsed.hash === 'string'
+        ) {
+            return parsed as PinHashRecord;
+        }
+    } catch {
+        // Not JSON, so it is a legacy plain-text PIN
+    }
+    return null;
+};
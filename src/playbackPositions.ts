@@ -0,0 +1,89 @@
+// src/playbackPositions.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist positions across app sessions
+import { useCallback, useEffect, useRef, useState } from 'react';
+// Helper for namespacing keys per child profile
+import { profileKey } from './profiles';
+
+// How often (at most) positions are written to storage while a video plays
+const FLUSH_INTERVAL_MS = 5000;
+
+// Positions this close to the start are not worth resuming from
+const MIN_RESUME_MILLIS = 5000;
+
+// Only the most recently watched videos are remembered
+const MAX_SAVED_POSITIONS = 50;
+
+// Where a child stopped in one video, stored per profile under 'playbackPositions'
+export interface PlaybackPosition {
+    positionMillis: number;        // Playback position when last seen
+    durationMillis: number | null; // Length of the video, if known (used for progress bars)
+    updatedAt: number;             // When the position was recorded (ms), newest first in "Continue watching"
+}
+
+// Remembers how far each video was watched by a profile so playback can resume there
+export const usePlaybackPositions = (profileId: string | undefined) => {
+    const [positions, setPositions] = useState<{ [videoId: string]: PlaybackPosition }>({}); // Last saved positions
+    const positionsRef = useRef<{ [videoId: string]: PlaybackPosition }>({}); // Latest positions, updated on every tick
+    const lastFlush = useRef<number>(0); // When positions were last written
+
+    // Storage key for this profile's positions
+    const storageKey = profileId ? profileKey(profileId, 'playbackPositions') : null;
+
+    // Publishes the latest positions to state and writes them to storage (oldest entries are dropped)
+    const persist = useCallback(async () => {
+        if (!storageKey) return;
+        lastFlush.current = Date.now();
+        const kept = Object.entries(positionsRef.current)
+            .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+            .slice(0, MAX_SAVED_POSITIONS);
+        positionsRef.current = Object.fromEntries(kept);
+        setPositions(positionsRef.current);
+        await AsyncStorage.setItem(storageKey, JSON.stringify(positionsRef.current));
+    }, [storageKey]);
+
+    // Load the profile's positions when the profile changes
+    useEffect(() => {
+        if (!storageKey) return;
+        const load = async () => {
+            try {
+                const stored = await AsyncStorage.getItem(storageKey);
+                positionsRef.current = stored ? JSON.parse(stored) : {};
+                setPositions(positionsRef.current);
+            } catch (e) {
+                console.error('Failed to load playback positions', e);
+            }
+        };
+        load();
+
+        // Save anything not yet written when leaving the feed
+        return () => { persist(); };
+    }, [storageKey, persist]);
+
+    // Records the current position of a playing video (written to storage every few seconds)
+    const recordPosition = useCallback((videoId: string, positionMillis: number, durationMillis: number | null) => {
+        if (positionMillis < MIN_RESUME_MILLIS) return;
+        positionsRef.current = {
+            ...positionsRef.current,
+            [videoId]: { positionMillis, durationMillis, updatedAt: Date.now() },
+        };
+        if (Date.now() - lastFlush.current >= FLUSH_INTERVAL_MS) persist();
+    }, [persist]);
+
+    // Forgets a video's position (called once it has been watched to the end)
+    const clearPosition = useCallback((videoId: string) => {
+        if (!positionsRef.current[videoId]) return;
+        const next = { ...positionsRef.current };
+        delete next[videoId];
+        positionsRef.current = next;
+        persist();
+    }, [persist]);
+
+    // Position to start a video from, or 0 to start from the beginning
+    const getResumePosition = useCallback(
+        (videoId: string): number => positionsRef.current[videoId]?.positionMillis ?? 0,
+        []
+    );
+
+    return { positions, recordPosition, clearPosition, getResumePosition };
+};
@@ -0,0 +1,58 @@
+// src/profiles.ts
+
+// Blocked time windows (bedtime, school hours) are stored per profile
+import { BlockedWindow } from './schedule';
+
+// Age bands a child profile can belong to
+export type AgeBand = 'under5' | '5to7' | '8to10' | '11to13';
+
+// Display labels for each age band (in the order they are offered)
+export const AGE_BANDS: { value: AgeBand; label: string }[] = [
+    { value: 'under5', label: 'Under 5' },
+    { value: '5to7', label: '5–7' },
+    { value: '8to10', label: '8–10' },
+    { value: '11to13', label: '11–13' },
+];
+
+// Avatars kids can choose from
+export const PROFILE_AVATARS = ['🐻', '🐰', '🦊', '🐼', '🦁', '🐸', '🐯', '🐨'];
+
+// A single child profile (the per-child settings live under namespaced keys, see profileKey)
+export interface ChildProfile {
+    id: string;         // Unique profile ID
+    name: string;       // Child's display name
+    avatar: string;     // Emoji avatar
+    ageBand: AgeBand;   // Age band used to tune content
+}
+
+// A video a child has asked a parent to approve
+export interface VideoRequest {
+    videoId: string;
+    videoTitle: string;            // Title at request time, shown in the approval queue
+    thumbnailUrl: string | null;   // Thumbnail at request time
+    requestedAt: string;           // ISO timestamp
+}
+
+// Per-profile settings kept in memory by SettingsContext
+export interface ProfileSettings {
+    selectedVideos: string[]; // Approved video IDs for this child
+    restrictedMode: boolean;  // Whether only approved videos are shown to this child
+    dailyLimits: (number | null)[]; // Watch-time allowance in minutes per weekday (index 0 = Sunday), null = no limit
+    blockedWindows: BlockedWindow[]; // Weekly windows during which the feed is locked
+    videoRequests: VideoRequest[]; // Videos the child asked for that a parent has not answered yet
+}
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+    selectedVideos: [],
+    restrictedMode: false,
+    dailyLimits: [null, null, null, null, null, null, null],
+    blockedWindows: [],
+    videoRequests: [],
+};
+
+// Builds the AsyncStorage key for a setting that belongs to one profile, e.g. "profile:abc:selectedVideos"
+export const profileKey = (profileId: string, key: string): string => `profile:${profileId}:${key}`;
+
+// Finds every stored key that belongs to a profile (or to any profile when no ID is given)
+export const findProfileKeys = (allKeys: readonly string[], profileId?: string): string[] =>
+    allKeys.filter(key => key.startsWith(profileId ? `profile:${profileId}:` : 'profile:'));
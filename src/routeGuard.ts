@@ -0,0 +1,18 @@
+// src/routeGuard.ts
+
+import { Href } from 'expo-router';
+import { GateStrength } from './SettingsContext';
+
+// What a route needs before it can be shown:
+// 'user' = signed in, 'guest' = signed out, 'parent' = parent session of at least PARENT_ROUTE_STRENGTH
+export type RouteRequirement = 'user' | 'guest' | 'parent';
+
+// Parental check strength parent screens need (the grown-up question is enough, the hold gesture isn't).
+// Settings that protect the PIN itself ask for 'high' on top, see SettingsScreen.
+export const PARENT_ROUTE_STRENGTH: GateStrength = 'medium';
+
+// Where to continue after the parental check: the destination the guard interrupted when it is an in-app path, otherwise Settings
+export const resolveNextRoute = (next: string | string[] | undefined): Href => {
+    const path = Array.isArray(next) ? next[0] : next;
+    return path && path.startsWith('/') && !path.startsWith('//') ? (path as Href) : '/Settings';
+};
@@ -0,0 +1,243 @@
+// src/schedule.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist the trusted clock state and active locks
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+// The backend's base URL (the clock sync reads headers only, so it doesn't go through apiFetch)
+import { getApiBaseUrl } from './api/client';
+
+// A weekly time window during which the feed is locked (e.g. bedtime or school hours)
+export interface BlockedWindow {
+    id: string;           // Unique window ID
+    label: string;        // Name shown on the lock screen, e.g. "Bedtime"
+    days: number[];       // Weekdays the window starts on (0 = Sunday, like Date.getDay())
+    startMinutes: number; // Start time in minutes after midnight
+    endMinutes: number;   // End time in minutes after midnight (smaller than start = runs past midnight)
+    timeZone: string;     // Time zone the times are in (IANA name), so changing the device's zone doesn't shift them
+}
+
+// An active window together with the moment it ends
+export interface ActiveBlockedWindow {
+    window: BlockedWindow;
+    endsAt: Date;
+}
+
+// How often the lock state is re-evaluated while the app is open
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTES_PER_DAY = 24 * 60;
+
+// Formats minutes after midnight as "7:30 PM"
+export const formatTimeOfDay = (minutes: number): string => {
+    const hours24 = Math.floor(minutes / 60) % 24;
+    const mins = minutes % 60;
+    const suffix = hours24 < 12 ? 'AM' : 'PM';
+    const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+    return `${hours12}:${String(mins).padStart(2, '0')} ${suffix}`;
+};
+
+// The device's current time zone (IANA name, e.g. "Europe/London")
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Gives windows saved before time zones were stored the device's current zone (returns the same array if none were missing)
+export const withTimeZones = (windows: BlockedWindow[]): BlockedWindow[] =>
+    windows.every(w => w.timeZone) ? windows : windows.map(w => ({ ...w, timeZone: w.timeZone || deviceTimeZone() }));
+
+// ------------------ Trusted clock ------------------
+// The device clock can be changed by a child. We keep an offset to server time (from the HTTP Date
+// header) and a high-water mark so that moving the clock backwards never moves our time backwards.
+// A successful sync resets the mark to server time, so a clock moved forward while offline doesn't stick.
+
+let serverOffsetMs = 0; // Server time minus device time at the last successful sync
+let highWaterMark = 0;  // Latest trusted time we have ever seen
+let lastSyncedAt = 0;   // Server time of the last successful sync in this app session (0 = not synced yet)
+
+// Current time corrected by the server offset and never earlier than anything seen before
+export const trustedNow = (): number => {
+    const now = Date.now() + serverOffsetMs;
+    if (now < highWaterMark) return highWaterMark;
+    highWaterMark = now;
+    return now;
+};
+
+// A window that has started locking the feed, saved under 'scheduleLocks' (by window ID) so a restart keeps it
+interface ScheduleLock {
+    endsAt: number;      // Trusted time the window ends
+    remainingMs: number; // Time left, counted down on the monotonic clock (which the device clock setting can't move)
+    signature: string;   // Days, times and zone of the window when it started (an edited window drops the lock)
+}
+
+let scheduleLocks: { [windowId: string]: ScheduleLock } = {};
+let lastTick = performance.now(); // Monotonic time of the last lock countdown
+
+// What identifies a window's timing, so editing it releases a lock taken under the old times
+const windowSignature = (window: BlockedWindow): string =>
+    JSON.stringify([window.days, window.startMinutes, window.endMinutes, window.timeZone]);
+
+// Writes the clock state and active locks to storage
+const persistScheduleState = (): Promise<void> =>
+    AsyncStorage.multiSet([
+        ['trustedClock', JSON.stringify({ serverOffsetMs, highWaterMark: trustedNow() })],
+        ['scheduleLocks', JSON.stringify(scheduleLocks)],
+    ]).catch(() => {});
+
+// Loads the saved clock state and locks (once per app start). The schedule isn't checked before this finishes.
+let loadPromise: Promise<void> | null = null;
+export const loadScheduleState = (): Promise<void> => {
+    if (!loadPromise) {
+        loadPromise = (async () => {
+            try {
+                const [[, storedClock], [, storedLocks]] = await AsyncStorage.multiGet(['trustedClock', 'scheduleLocks']);
+                if (storedClock) {
+                    const parsed = JSON.parse(storedClock);
+                    serverOffsetMs = parsed.serverOffsetMs ?? 0;
+                    highWaterMark = Math.max(highWaterMark, parsed.highWaterMark ?? 0);
+                }
+                if (storedLocks) scheduleLocks = JSON.parse(storedLocks);
+            } catch (e) {
+                console.error('Failed to load schedule state', e);
+            }
+        })();
+    }
+    return loadPromise;
+};
+
+// Loads the saved state, then tries to refresh the offset from the server
+export const syncTrustedClock = async (): Promise<void> => {
+    await loadScheduleState();
+    try {
+        // The backend's HTTP Date header is the reference clock. A plain fetch, because the header is there
+        // whatever the status: a 404 or 405 on HEAD still tells us the time (apiFetch would throw it away)
+        const response = await fetch(`${getApiBaseUrl()}/videos`, { method: 'HEAD' });
+        const serverDate = response.headers.get('date');
+        if (serverDate) {
+            const serverTime = new Date(serverDate).getTime();
+            if (!isNaN(serverTime)) {
+                serverOffsetMs = serverTime - Date.now();
+                highWaterMark = Date.now() + serverOffsetMs; // Server time replaces whatever the device clock claimed
+                lastSyncedAt = highWaterMark;
+            }
+        }
+    } catch (e) {
+        // Offline: keep using the saved offset and high-water mark
+    } finally {
+        await persistScheduleState();
+    }
+};
+
+// ------------------ Window matching ------------------
+
+// Weekday (0 = Sunday) and minute of the day of a moment in the given time zone
+const zonedTime = (date: Date, timeZone: string): { day: number; minuteOfDay: number } => {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23',
+        }).formatToParts(date);
+        const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+        const day = WEEKDAY_SHORT.indexOf(part('weekday'));
+        if (day >= 0) return { day, minuteOfDay: (Number(part('hour')) % 24) * 60 + Number(part('minute')) };
+    } catch (e) {
+        // Unknown zone name: fall back to the device's zone below
+    }
+    return { day: date.getDay(), minuteOfDay: date.getHours() * 60 + date.getMinutes() };
+};
+
+// Returns the window that covers the given moment, if any (each window is read in its own time zone)
+export const findActiveWindow = (windows: BlockedWindow[], now: Date): ActiveBlockedWindow | null => {
+    // The end, a whole number of minutes after the start of the current minute
+    const endsIn = (minutes: number): Date => new Date(Math.floor(now.getTime() / 60000) * 60000 + minutes * 60000);
+
+    for (const window of windows) {
+        const { day: today, minuteOfDay } = zonedTime(now, window.timeZone || deviceTimeZone());
+        const yesterday = (today + 6) % 7;
+        const overnight = window.endMinutes <= window.startMinutes;
+
+        // Started today and still running
+        if (window.days.includes(today) && minuteOfDay >= window.startMinutes &&
+            (overnight || minuteOfDay < window.endMinutes)) {
+            return { window, endsAt: endsIn((window.endMinutes - minuteOfDay + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY) };
+        }
+
+        // Started yesterday evening and runs past midnight into this morning
+        if (overnight && window.days.includes(yesterday) && minuteOfDay < window.endMinutes) {
+            return { window, endsAt: endsIn(window.endMinutes - minuteOfDay) };
+        }
+    }
+    return null;
+};
+
+// Checks the schedule against the saved locks. A window that started locking the feed stays locked until
+// its time has run out on the monotonic clock or a server sync confirms it is over, so moving the device
+// clock forward (even across a restart) can't end it early. Also says whether a lock is only waiting for that.
+const evaluateSchedule = (windows: BlockedWindow[]): { active: ActiveBlockedWindow | null; awaitingRelease: boolean } => {
+    // Count down every lock by the time that really passed since the last check
+    const tick = performance.now();
+    const elapsed = Math.max(0, tick - lastTick);
+    lastTick = tick;
+    Object.values(scheduleLocks).forEach(lock => { lock.remainingMs -= elapsed; });
+
+    const now = trustedNow();
+    const found = findActiveWindow(windows, new Date(now));
+    const previous = found ? scheduleLocks[found.window.id] : undefined;
+    if (found && (!previous || previous.endsAt < found.endsAt.getTime())) {
+        // New lock, or a later occurrence of the window (a lock never gets shorter)
+        scheduleLocks[found.window.id] = {
+            endsAt: found.endsAt.getTime(),
+            remainingMs: Math.max(found.endsAt.getTime() - now, previous?.remainingMs ?? 0),
+            signature: windowSignature(found.window),
+        };
+    }
+
+    // Drop locks that are over (locks of other profiles' windows are kept until they run out)
+    for (const [windowId, lock] of Object.entries(scheduleLocks)) {
+        const window = windows.find(w => w.id === windowId);
+        const edited = window !== undefined && windowSignature(window) !== lock.signature;
+        if (found?.window.id !== windowId && (lock.remainingMs <= 0 || lastSyncedAt >= lock.endsAt || edited)) {
+            delete scheduleLocks[windowId];
+        }
+    }
+    persistScheduleState();
+
+    if (found) return { active: found, awaitingRelease: false };
+    const held = windows.find(w => scheduleLocks[w.id]);
+    if (!held) return { active: null, awaitingRelease: false };
+    return { active: { window: held, endsAt: new Date(scheduleLocks[held.id].endsAt) }, awaitingRelease: true };
+};
+
+// Watches the schedule and returns the window that is active right now (re-checked on a timer and on app resume).
+// isLoaded stays false until the saved clock and locks have been read; show the lock screen until then.
+export const useActiveBlockedWindow = (windows: BlockedWindow[]): { active: ActiveBlockedWindow | null; isLoaded: boolean } => {
+    const [state, setState] = useState<{ active: ActiveBlockedWindow | null; isLoaded: boolean }>({ active: null, isLoaded: false });
+
+    useEffect(() => {
+        let isMounted = true;
+
+        const check = (canSync: boolean = true) => {
+            if (!isMounted) return;
+            const { active, awaitingRelease } = evaluateSchedule(windows);
+            setState({ active, isLoaded: true });
+            // Looks over, but only a sync or the countdown may end it: ask the server once
+            if (awaitingRelease && canSync) syncTrustedClock().then(() => check(false));
+        };
+
+        // Check as soon as the saved state is there, then re-sync with server time (and on every return to the foreground)
+        let intervalId: ReturnType<typeof setInterval> | undefined;
+        loadScheduleState().then(() => {
+            check(false);
+            syncTrustedClock().then(() => check(false));
+            intervalId = setInterval(check, CHECK_INTERVAL_MS);
+        });
+        const subscription = AppState.addEventListener('change', appState => {
+            if (appState === 'active') syncTrustedClock().then(() => check(false));
+        });
+
+        return () => {
+            isMounted = false;
+            if (intervalId) clearInterval(intervalId);
+            subscription.remove();
+        };
+    }, [windows]);
+
+    return state;
+};
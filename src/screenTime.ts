@@ -0,0 +1,134 @@
+// src/screenTime.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist watch time across app sessions
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+// Helper for namespacing keys per child profile
+import { profileKey } from './profiles';
+// Clock that ignores changes to the device time, so moving the date forward doesn't start a fresh day
+import { trustedNow } from './schedule';
+
+// Short weekday names, indexed like Date.getDay() (0 = Sunday)
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// How often (in seconds of watching) the running total is written to storage
+const FLUSH_EVERY_SECONDS = 10;
+
+// How often the hook checks whether a new day has started while the feed is open
+const DAY_CHECK_INTERVAL_MS = 60 * 1000;
+
+// What is stored per profile under 'screenTimeToday'
+interface ScreenTimeRecord {
+    date: string;          // Local calendar day this record belongs to (YYYY-MM-DD)
+    usedSeconds: number;   // Seconds of actual playback on that day
+    bonusMinutes: number;  // Extra minutes granted by a parent on that day
+}
+
+// Returns the local date as YYYY-MM-DD (today on the trusted clock by default)
+export const todayKey = (date: Date = new Date(trustedNow())): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Fresh record for the current day
+const emptyRecord = (): ScreenTimeRecord => ({ date: todayKey(), usedSeconds: 0, bonusMinutes: 0 });
+
+// Formats a number of seconds as "1 h 5 min" / "12 min"
+export const formatMinutes = (seconds: number): string => {
+    const totalMinutes = Math.max(0, Math.ceil(seconds / 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+};
+
+// Tracks today's watch time for a profile against the allowance for today's weekday
+export const useScreenTime = (profileId: string | undefined, dailyLimits: (number | null)[]) => {
+    const [record, setRecord] = useState<ScreenTimeRecord>(emptyRecord); // Today's usage and bonus
+    const [isLoaded, setIsLoaded] = useState<boolean>(false); // True once today's usage has been read
+    const recordRef = useRef<ScreenTimeRecord>(record); // Latest record for use inside callbacks
+    const unsavedSeconds = useRef<number>(0); // Seconds added since the last write to storage
+
+    // Storage key for this profile's usage
+    const storageKey = profileId ? profileKey(profileId, 'screenTimeToday') : null;
+
+    // Writes the latest record to storage
+    const persist = useCallback(async () => {
+        if (!storageKey) return;
+        unsavedSeconds.current = 0;
+        await AsyncStorage.setItem(storageKey, JSON.stringify(recordRef.current));
+    }, [storageKey]);
+
+    // Updates the record in state and in the ref together
+    const updateRecord = (next: ScreenTimeRecord) => {
+        recordRef.current = next;
+        setRecord(next);
+    };
+
+    // Load today's usage when the profile changes (a record from an earlier day is discarded)
+    useEffect(() => {
+        if (!storageKey) return;
+        const load = async () => {
+            try {
+                const stored = await AsyncStorage.getItem(storageKey);
+                const parsed: ScreenTimeRecord | null = stored ? JSON.parse(stored) : null;
+                updateRecord(parsed && parsed.date === todayKey() ? parsed : emptyRecord());
+            } catch (e) {
+                console.error('Failed to load screen time', e);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        load();
+
+        // Save anything not yet written when leaving the feed
+        return () => { persist(); };
+    }, [storageKey, persist]);
+
+    // Start a fresh day at midnight even while nothing is playing, so today's allowance is shown straight away
+    useEffect(() => {
+        const checkDay = () => {
+            if (recordRef.current.date === todayKey()) return;
+            updateRecord(emptyRecord());
+            persist();
+        };
+        const intervalId = setInterval(checkDay, DAY_CHECK_INTERVAL_MS);
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') checkDay();
+        });
+        return () => {
+            clearInterval(intervalId);
+            subscription.remove();
+        };
+    }, [persist]);
+
+    // Adds seconds of real playback to today's total
+    const addWatchTime = useCallback((seconds: number) => {
+        if (seconds <= 0) return;
+        const current = recordRef.current.date === todayKey() ? recordRef.current : emptyRecord(); // Roll over at midnight
+        updateRecord({ ...current, usedSeconds: current.usedSeconds + seconds });
+        unsavedSeconds.current += seconds;
+        if (unsavedSeconds.current >= FLUSH_EVERY_SECONDS) persist();
+    }, [persist]);
+
+    // Grants extra minutes for today (called after the parent PIN has been checked)
+    const grantBonusTime = useCallback(async (minutes: number) => {
+        const current = recordRef.current.date === todayKey() ? recordRef.current : emptyRecord();
+        updateRecord({ ...current, bonusMinutes: current.bonusMinutes + minutes });
+        await persist();
+    }, [persist]);
+
+    // Allowance for the record's weekday plus any bonus, in seconds (null = unlimited).
+    // The record's date is on the trusted clock and rolls over at midnight (see above).
+    const limitMinutes = dailyLimits[new Date(`${record.date}T00:00:00`).getDay()];
+    const allowanceSeconds = limitMinutes === null || limitMinutes === undefined
+        ? null
+        : (limitMinutes + record.bonusMinutes) * 60;
+    const remainingSeconds = allowanceSeconds === null ? null : Math.max(0, allowanceSeconds - record.usedSeconds);
+
+    return {
+        isLoaded,
+        usedSeconds: record.usedSeconds,
+        remainingSeconds,
+        isTimeUp: isLoaded && remainingSeconds !== null && remainingSeconds <= 0,
+        addWatchTime,
+        grantBonusTime,
+    };
+};
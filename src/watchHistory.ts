@@ -0,0 +1,169 @@
+// src/watchHistory.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage'; // Used to persist the history across app sessions
+// Helper for namespacing keys per child profile
+import { profileKey } from './profiles';
+// Date helper shared with screen time (local YYYY-MM-DD)
+import { todayKey } from './screenTime';
+
+// Events older than this are dropped when the history is saved
+const HISTORY_RETENTION_DAYS = 30;
+
+// Upper limit on stored events per profile, so the history stays small
+const MAX_HISTORY_EVENTS = 5000;
+
+// A single play that was never closed (app killed, phone died) counts for at most this long
+const MAX_SESSION_SECONDS = 60 * 60;
+
+// Kinds of playback events that are recorded
+export type WatchEventType = 'play' | 'pause' | 'finish' | 'error';
+
+// One playback event, stored per profile under 'watchHistory' (oldest first)
+export interface WatchEvent {
+    type: WatchEventType;
+    videoId: string;
+    videoTitle: string;            // Title at the time, so the report still reads well if the video is removed
+    timestamp: number;             // When it happened (ms)
+    positionMillis: number | null; // Playback position, if the player knew it
+    message?: string;              // Error text for 'error' events
+}
+
+// One stretch of watching a video, from a play event to the event that ended it
+export interface WatchSession {
+    videoId: string;
+    videoTitle: string;
+    startedAt: number;      // Timestamp of the play event (ms)
+    watchedSeconds: number; // How long the video actually played
+}
+
+// Watch time for one calendar day
+export interface DailyWatchTotal {
+    date: string;    // Local date, YYYY-MM-DD
+    seconds: number;
+}
+
+// Play count and watch time for one video
+export interface VideoWatchSummary {
+    videoId: string;
+    videoTitle: string;
+    plays: number;
+    seconds: number;
+}
+
+// Writes run one after another so two quick events never overwrite each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Loads a profile's history (oldest event first)
+export const loadWatchHistory = async (profileId: string): Promise<WatchEvent[]> => {
+    try {
+        const stored = await AsyncStorage.getItem(profileKey(profileId, 'watchHistory'));
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error('Failed to load watch history', e);
+        return [];
+    }
+};
+
+// Appends an event to a profile's history, dropping events past the retention window
+export const recordWatchEvent = (profileId: string, event: WatchEvent): Promise<void> => {
+    writeQueue = writeQueue
+        .then(async () => {
+            const cutoff = Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+            const history = (await loadWatchHistory(profileId)).filter(e => e.timestamp >= cutoff);
+            history.push(event);
+            await AsyncStorage.setItem(
+                profileKey(profileId, 'watchHistory'),
+                JSON.stringify(history.slice(-MAX_HISTORY_EVENTS))
+            );
+        })
+        .catch(e => console.error('Failed to record watch event', e));
+    return writeQueue;
+};
+
+// Pairs every play event with the next event for the same video that ended it.
+// Watch time comes from the position moved when both events know it, otherwise from the clock.
+export const buildWatchSessions = (events: WatchEvent[]): WatchSession[] => {
+    const sessions: WatchSession[] = [];
+    const openPlays: { [videoId: string]: WatchEvent } = {};
+
+    const close = (start: WatchEvent, end: WatchEvent | null) => {
+        let seconds = 0;
+        if (end) {
+            seconds = start.positionMillis !== null && end.positionMillis !== null && end.positionMillis >= start.positionMillis
+                ? (end.positionMillis - start.positionMillis) / 1000
+                : (end.timestamp - start.timestamp) / 1000;
+        }
+        sessions.push({
+            videoId: start.videoId,
+            videoTitle: start.videoTitle,
+            startedAt: start.timestamp,
+            watchedSeconds: Math.min(Math.max(0, seconds), MAX_SESSION_SECONDS),
+        });
+    };
+
+    for (const event of events) {
+        const open = openPlays[event.videoId];
+        if (event.type === 'play') {
+            if (open) close(open, event); // Played again without a pause in between
+            openPlays[event.videoId] = event;
+        } else if (open) {
+            close(open, event);
+            delete openPlays[event.videoId];
+        }
+    }
+
+    // Plays that never got a closing event still count as a play
+    Object.values(openPlays).forEach(open => close(open, null));
+    return sessions.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+// Adds up watch time per local calendar day (newest day first)
+export const summarizeByDay = (sessions: WatchSession[]): DailyWatchTotal[] => {
+    const totals: { [date: string]: number } = {};
+    for (const session of sessions) {
+        const date = todayKey(new Date(session.startedAt));
+        totals[date] = (totals[date] ?? 0) + session.watchedSeconds;
+    }
+    return Object.entries(totals)
+        .map(([date, seconds]) => ({ date, seconds }))
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Videos with the most watch time (ties broken by play count)
+export const summarizeByVideo = (sessions: WatchSession[], limit: number): VideoWatchSummary[] => {
+    const byVideo: { [videoId: string]: VideoWatchSummary } = {};
+    for (const session of sessions) {
+        if (!byVideo[session.videoId]) {
+            byVideo[session.videoId] = { videoId: session.videoId, videoTitle: session.videoTitle, plays: 0, seconds: 0 };
+        }
+        const summary = byVideo[session.videoId];
+        summary.plays += 1;
+        summary.seconds += session.watchedSeconds;
+    }
+    return Object.values(byVideo)
+        .sort((a, b) => b.seconds - a.seconds || b.plays - a.plays)
+        .slice(0, limit);
+};
+
+// Quotes a CSV field when it contains a comma, quote or line break
+const csvField = (value: string | number | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Formats the history as CSV, one event per row
+export const historyToCsv = (events: WatchEvent[]): string => {
+    const header = 'timestamp,event,video_id,video_title,position_seconds,message';
+    const rows = events.map(e => [
+        new Date(e.timestamp).toISOString(),
+        e.type,
+        e.videoId,
+        e.videoTitle,
+        e.positionMillis === null ? null : Math.round(e.positionMillis / 1000),
+        e.message,
+    ].map(csvField).join(','));
+    return [header, ...rows].join('\n');
+};
+
+// Formats the history as pretty-printed JSON
+export const historyToJson = (events: WatchEvent[]): string => JSON.stringify(events, null, 2);